@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Returns the qualified names declared by a Closure externs file, e.g. "Window",
+ * "Window.prototype.alert" and "google.maps.Map" for
+ *   function Window() {}
+ *   Window.prototype.alert = function(message) {};
+ *   var google = {};
+ *   google.maps.Map = function(el) {};
+ */
+export function getClosureExternsNames(fileName: string, source: string): string[] {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.ES2015);
+  const names: string[] = [];
+  for (const stmt of sourceFile.statements) {
+    switch (stmt.kind) {
+      case ts.SyntaxKind.FunctionDeclaration:
+        const fnName = (stmt as ts.FunctionDeclaration).name;
+        if (fnName) names.push(fnName.text);
+        break;
+      case ts.SyntaxKind.VariableStatement:
+        for (const decl of (stmt as ts.VariableStatement).declarationList.declarations) {
+          if (decl.name.kind === ts.SyntaxKind.Identifier) {
+            names.push((decl.name as ts.Identifier).text);
+          }
+        }
+        break;
+      case ts.SyntaxKind.ExpressionStatement:
+        // E.g. "Foo.prototype.bar;" or "Foo.bar = function() {};".
+        let expr = (stmt as ts.ExpressionStatement).expression;
+        if (expr.kind === ts.SyntaxKind.BinaryExpression &&
+            (expr as ts.BinaryExpression).operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+          expr = (expr as ts.BinaryExpression).left;
+        }
+        const name = getQualifiedName(expr);
+        if (name !== null) names.push(name);
+        break;
+      default:
+        break;
+    }
+  }
+  return names;
+}
+
+/** Returns the dotted name of an expression like "foo.bar.baz", or null for other expressions. */
+function getQualifiedName(expr: ts.Expression): string|null {
+  if (expr.kind === ts.SyntaxKind.Identifier) return (expr as ts.Identifier).text;
+  if (expr.kind !== ts.SyntaxKind.PropertyAccessExpression) return null;
+  const access = expr as ts.PropertyAccessExpression;
+  const parent = getQualifiedName(access.expression);
+  return parent !== null ? `${parent}.${access.name.text}` : null;
+}
+
+/**
+ * Reads the qualified names declared by the Closure externs files (*.js) in a directory and its
+ * subdirectories, e.g. Closure Compiler's externs/ directory with es3.js, es6.js and browser/.
+ * The result is meant for Options.closureExterns.
+ */
+export function readClosureExterns(dirPath: string): Set<string> {
+  const names = new Set<string>();
+  for (const entry of fs.readdirSync(dirPath).sort()) {
+    const entryPath = path.join(dirPath, entry);
+    if (fs.statSync(entryPath).isDirectory()) {
+      readClosureExterns(entryPath).forEach(name => names.add(name));
+    } else if (/\.js$/.test(entry)) {
+      const source = fs.readFileSync(entryPath, 'utf-8');
+      for (const name of getClosureExternsNames(entryPath, source)) names.add(name);
+    }
+  }
+  return names;
+}
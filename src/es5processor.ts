@@ -23,7 +23,8 @@ export function extractGoogNamespaceImport(tsImport: string): string|null {
 /**
  * ES5Processor postprocesses TypeScript compilation output JS, to rewrite commonjs require()s into
  * goog.require(). Contrary to its name it handles converting the modules in both ES5 and ES6
- * outputs.
+ * outputs.  It also converts the import and export statements TypeScript emits for "module":
+ * "es2015", see emitRewrittenImport and emitRewrittenExport.
  */
 class ES5Processor extends Rewriter {
   /**
@@ -51,6 +52,16 @@ class ES5Processor extends Rewriter {
   /** unusedIndex is used to generate fresh symbols for unnamed imports. */
   unusedIndex: number = 0;
 
+  /**
+   * liveExports collects the names of exported ES2015 "let" and "var" declarations, which are
+   * declared and referenced as properties of exports, so that reassignments stay visible to
+   * importing modules.  E.g. from:
+   *   export let foo = 1; foo++;
+   * produces:
+   *   exports.foo = 1; exports.foo++;
+   */
+  liveExports = new Set<string>();
+
   constructor(
       file: ts.SourceFile, private pathToModuleName: (context: string, fileName: string) => string,
       private prelude: string) {
@@ -80,6 +91,14 @@ class ES5Processor extends Rewriter {
       this.emit(` exports = {}; var module = {id: '${moduleId}'};`);
     }
 
+    for (const stmt of this.file.statements) {
+      if (stmt.kind === ts.SyntaxKind.VariableStatement && this.isExported(stmt)) {
+        for (const name of this.getLiveExportNames(stmt as ts.VariableStatement)) {
+          this.liveExports.add(name);
+        }
+      }
+    }
+
     let pos = 0;
     for (let stmt of this.file.statements) {
       this.writeRange(pos, stmt.getFullStart());
@@ -121,7 +140,31 @@ class ES5Processor extends Rewriter {
       case ts.SyntaxKind.VariableStatement:
         // Check for a "var x = require('foo');".
         if (this.emitRewrittenRequires(node)) return;
+        if (this.isExported(node)) {
+          this.emitRewrittenExport(node as ts.VariableStatement);
+          return;
+        }
         break;
+      case ts.SyntaxKind.FunctionDeclaration:
+      case ts.SyntaxKind.ClassDeclaration:
+        if (this.isExported(node)) {
+          this.emitRewrittenExport(node as ts.FunctionDeclaration | ts.ClassDeclaration);
+          return;
+        }
+        break;
+      case ts.SyntaxKind.ImportDeclaration:
+        this.emitRewrittenImport(node as ts.ImportDeclaration);
+        return;
+      case ts.SyntaxKind.ExportDeclaration:
+        this.emitRewrittenExportDeclaration(node as ts.ExportDeclaration);
+        return;
+      case ts.SyntaxKind.ExportAssignment:
+        // "export default expr;".  TypeScript does not allow "export =" in ES2015 modules.
+        this.writeRange(node.getFullStart(), node.getStart());
+        this.emit('exports.default =');
+        this.visit((node as ts.ExportAssignment).expression);
+        this.emit(';');
+        return;
       default:
         break;
     }
@@ -251,6 +294,359 @@ class ES5Processor extends Rewriter {
   }
   // workaround for syntax highlighting bug in Sublime: `
 
+  /**
+   * Rewrites an ES2015 import into goog.require() equivalents.  The imported names are declared
+   * as variables, e.g. from:
+   *   import {foo as bar} from './baz';
+   * produces:
+   *   var tsickle_module_0_ = goog.require('baz'); var bar = tsickle_module_0_.foo;
+   *
+   * TypeScript drops imports that are only used as types, so all remaining imports are for values.
+   */
+  emitRewrittenImport(decl: ts.ImportDeclaration) {
+    this.writeRange(decl.getFullStart(), decl.getStart());
+    const tsImport = (decl.moduleSpecifier as ts.StringLiteral).text;
+    const importClause = decl.importClause;
+    if (!importClause) {
+      // import './foo';
+      this.emitGoogRequire(null, tsImport);
+      return;
+    }
+    const isNamespaceImport = extractGoogNamespaceImport(tsImport) !== null;
+    const bindings = importClause.namedBindings;
+    let namespaceName: string|null = null;
+    if (bindings && bindings.kind === ts.SyntaxKind.NamespaceImport) {
+      // import * as foo from './foo';
+      namespaceName = getIdentifierText((bindings as ts.NamespaceImport).name);
+    } else if (importClause.name && !bindings && isNamespaceImport) {
+      // import foo from 'goog:foo';
+      this.emitGoogRequire(getIdentifierText(importClause.name), tsImport);
+      return;
+    }
+    const requiredModules = this.moduleVariables.size;
+    const moduleVar = this.emitGoogRequire(namespaceName, tsImport);
+    const declarations: string[] = [];
+    if (importClause.name) {
+      // import foo from './foo';
+      // goog: imports don't actually use the .default property that TS thinks they have.
+      const defaultExport = isNamespaceImport ? moduleVar : `${moduleVar}.default`;
+      declarations.push(`var ${getIdentifierText(importClause.name)} = ${defaultExport};`);
+    }
+    if (bindings && bindings.kind === ts.SyntaxKind.NamedImports) {
+      // import {foo, bar as baz} from './foo';
+      for (const spec of (bindings as ts.NamedImports).elements) {
+        const name = getIdentifierText(spec.name);
+        const propertyName = getIdentifierText(spec.propertyName || spec.name);
+        declarations.push(`var ${name} = ${moduleVar}.${propertyName};`);
+      }
+    }
+    this.emitAfterRequire(
+        namespaceName !== null || this.moduleVariables.size > requiredModules, declarations);
+  }
+
+  /**
+   * Rewrites an ES2015 "export {...};" or "export ... from './foo';" into assignments to exports,
+   * e.g. from:
+   *   export {foo as bar} from './baz';
+   * produces:
+   *   var tsickle_module_0_ = goog.require('baz'); exports.bar = tsickle_module_0_.foo;
+   *
+   * TypeScript drops the exports of names that are only types.  The typedefs that tsickle
+   * generates for them are exported by the annotator already.
+   */
+  emitRewrittenExportDeclaration(decl: ts.ExportDeclaration) {
+    this.writeRange(decl.getFullStart(), decl.getStart());
+    const requiredModules = this.moduleVariables.size;
+    let moduleVar: string|null = null;
+    if (decl.moduleSpecifier) {
+      moduleVar = this.emitGoogRequire(null, (decl.moduleSpecifier as ts.StringLiteral).text);
+    }
+    const emittedRequire = this.moduleVariables.size > requiredModules;
+    if (!decl.exportClause) {
+      // export * from './foo';
+      // tsickle's annotator expands these into explicit export lists before TypeScript emits
+      // them, so this only copies the exports at runtime, like TypeScript's __export() helper.
+      this.emitAfterRequire(
+          emittedRequire,
+          [`Object.keys(${moduleVar}).forEach(function(k) { ` +
+           `if (!exports.hasOwnProperty(k)) exports[k] = ${moduleVar}[k]; });`]);
+      return;
+    }
+    const assignments = decl.exportClause.elements.map(spec => {
+      const name = getIdentifierText(spec.name);
+      const localName = getIdentifierText(spec.propertyName || spec.name);
+      let value = localName;
+      if (moduleVar !== null) {
+        value = `${moduleVar}.${localName}`;
+      } else if (this.liveExports.has(localName)) {
+        value = `exports.${localName}`;
+      }
+      return `exports.${name} = ${value};`;
+    });
+    this.emitAfterRequire(emittedRequire, assignments);
+  }
+
+  /**
+   * Emits statements following an emitGoogRequire() call on the same line, separated by a space
+   * if that call emitted a statement.
+   */
+  emitAfterRequire(emittedRequire: boolean, statements: string[]) {
+    if (statements.length === 0) return;
+    if (emittedRequire) this.emit(' ');
+    this.emit(statements.join(' '));
+  }
+
+  /**
+   * Rewrites an exported ES2015 declaration by dropping its export modifiers and assigning the
+   * declared names to exports, e.g. from:
+   *   export function foo() {}
+   * produces:
+   *   function foo() {} exports.foo = foo;
+   */
+  emitRewrittenExport(node: ts.VariableStatement|ts.FunctionDeclaration|ts.ClassDeclaration) {
+    this.writeRange(node.getFullStart(), node.getStart());
+    // Skip the "export" and "default" modifiers, which precede any others, and the whitespace
+    // following them.
+    let declStart = node.getStart();
+    for (const modifier of node.modifiers!) {
+      if (modifier.kind !== ts.SyntaxKind.ExportKeyword &&
+          modifier.kind !== ts.SyntaxKind.DefaultKeyword) {
+        break;
+      }
+      declStart = modifier.getEnd();
+    }
+    while (/\s/.test(this.file.text.charAt(declStart))) declStart++;
+
+    if (node.kind === ts.SyntaxKind.VariableStatement) {
+      const declarations = (node as ts.VariableStatement).declarationList.declarations;
+      if (this.getLiveExportNames(node as ts.VariableStatement).length > 0) {
+        // export let foo = 1, /** @type {number} */ bar;
+        // produces:
+        //   exports.foo = 1; /** @type {number} */ exports.bar;
+        for (const decl of declarations) {
+          // Keep any comment preceding the name, e.g. the JSDoc type tsickle inserts there.
+          const leading = this.file.text.substring(decl.getFullStart(), decl.name.getStart());
+          this.emit(decl === declarations[0] ? leading.replace(/^\s+/, '') : leading);
+          this.emit(`exports.${getIdentifierText(decl.name as ts.Identifier)}`);
+          if (decl.initializer) {
+            this.writeRange(decl.name.getEnd(), decl.initializer.getFullStart());
+            this.visit(decl.initializer);
+          }
+          this.emit(';');
+        }
+        return;
+      }
+      // export const foo = 1, {bar} = baz;
+      this.writeNodeFrom(node, declStart);
+      const names: string[] = [];
+      for (const decl of declarations) this.collectBindingNames(decl.name, names);
+      for (const name of names) this.emit(` exports.${name} = ${name};`);
+      return;
+    }
+    const isDefault =
+        node.modifiers!.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+    const decl = node as ts.FunctionDeclaration | ts.ClassDeclaration;
+    if (!decl.name) {
+      // export default function() {}
+      this.emit('exports.default = ');
+      this.writeNodeFrom(node, declStart);
+      this.emit(';');
+      return;
+    }
+    // export function foo() {}
+    // export default class Foo {}
+    this.writeNodeFrom(node, declStart);
+    const name = getIdentifierText(decl.name);
+    this.emit(` exports.${isDefault ? 'default' : name} = ${name};`);
+  }
+
+  /** Returns true if the node is an ES2015 "export ..." declaration. */
+  isExported(node: ts.Node): boolean {
+    return !!node.modifiers &&
+        node.modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+  }
+
+  /**
+   * Writes a node starting at the given offset, which lies within the node's leading tokens,
+   * e.g. to drop its modifiers.  Like Rewriter.writeNode, calls this.visit() on its children.
+   */
+  writeNodeFrom(node: ts.Node, from: number) {
+    let pos = from;
+    ts.forEachChild(node, child => {
+      if (child.getEnd() <= from) return;
+      if (child.getFullStart() < from) {
+        this.writeNodeFrom(child, from);
+      } else {
+        this.writeRange(pos, child.getFullStart());
+        this.visit(child);
+      }
+      pos = child.getEnd();
+    });
+    this.writeRange(pos, node.getEnd());
+  }
+
+  /**
+   * Returns the names declared by an exported "let" or "var" statement, which become live exports.
+   * Returns no names for "const" statements, which cannot be reassigned, and for statements with
+   * destructuring bindings, whose values are copied to exports once instead.
+   */
+  getLiveExportNames(node: ts.VariableStatement): string[] {
+    const declList = node.declarationList;
+    if (declList.flags & ts.NodeFlags.Const) return [];
+    const names: string[] = [];
+    for (const decl of declList.declarations) {
+      if (decl.name.kind !== ts.SyntaxKind.Identifier) return [];
+      names.push(getIdentifierText(decl.name as ts.Identifier));
+    }
+    return names;
+  }
+
+  /**
+   * Returns true if the identifier references a module level binding by that name, i.e. it is
+   * not a property name, label or declaration, and no enclosing scope declares the same name.
+   */
+  isModuleReference(ident: ts.Identifier): boolean {
+    const parent = ident.parent!;
+    switch (parent.kind) {
+      case ts.SyntaxKind.PropertyAccessExpression:
+        if ((parent as ts.PropertyAccessExpression).name === ident) return false;
+        break;
+      case ts.SyntaxKind.PropertyAssignment:
+      case ts.SyntaxKind.PropertyDeclaration:
+      case ts.SyntaxKind.MethodDeclaration:
+      case ts.SyntaxKind.GetAccessor:
+      case ts.SyntaxKind.SetAccessor:
+        if ((parent as ts.Declaration).name === ident) return false;
+        break;
+      case ts.SyntaxKind.BindingElement:
+        if ((parent as ts.BindingElement).propertyName === ident) return false;
+        break;
+      case ts.SyntaxKind.LabeledStatement:
+      case ts.SyntaxKind.BreakStatement:
+      case ts.SyntaxKind.ContinueStatement:
+        return false;
+      default:
+        break;
+    }
+    const name = getIdentifierText(ident);
+    for (let scope = parent; scope.kind !== ts.SyntaxKind.SourceFile; scope = scope.parent!) {
+      if (this.getScopeDeclarations(scope).indexOf(name) !== -1) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Returns the names that a node declares in its own scope, or none if the node does not start a
+   * scope.  A function's scope holds its name (for function expressions), its parameters and the
+   * "var"s in its body; a block's scope holds its "let"s, "const"s, functions and classes.
+   */
+  getScopeDeclarations(scope: ts.Node): string[] {
+    const names: string[] = [];
+    switch (scope.kind) {
+      case ts.SyntaxKind.FunctionDeclaration:
+      case ts.SyntaxKind.FunctionExpression:
+      case ts.SyntaxKind.ArrowFunction:
+      case ts.SyntaxKind.MethodDeclaration:
+      case ts.SyntaxKind.Constructor:
+      case ts.SyntaxKind.GetAccessor:
+      case ts.SyntaxKind.SetAccessor:
+        const fn = scope as ts.FunctionLikeDeclaration;
+        if (fn.kind === ts.SyntaxKind.FunctionExpression && fn.name) {
+          names.push(getIdentifierText(fn.name as ts.Identifier));
+        }
+        for (const param of fn.parameters) this.collectBindingNames(param.name, names);
+        if (fn.body) this.collectVarNames(fn.body, names);
+        break;
+      case ts.SyntaxKind.ClassExpression:
+        const classExpr = scope as ts.ClassExpression;
+        if (classExpr.name) names.push(getIdentifierText(classExpr.name));
+        break;
+      case ts.SyntaxKind.Block:
+        this.collectBlockScopedNames((scope as ts.Block).statements, names);
+        break;
+      case ts.SyntaxKind.CaseBlock:
+        for (const clause of (scope as ts.CaseBlock).clauses) {
+          this.collectBlockScopedNames(clause.statements, names);
+        }
+        break;
+      case ts.SyntaxKind.CatchClause:
+        const catchClause = scope as ts.CatchClause;
+        this.collectBindingNames(catchClause.variableDeclaration.name, names);
+        break;
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+        const initializer = (scope as ts.ForStatement | ts.ForInStatement).initializer;
+        if (initializer && initializer.kind === ts.SyntaxKind.VariableDeclarationList &&
+            this.isBlockScoped(initializer as ts.VariableDeclarationList)) {
+          for (const decl of (initializer as ts.VariableDeclarationList).declarations) {
+            this.collectBindingNames(decl.name, names);
+          }
+        }
+        break;
+      default:
+        break;
+    }
+    return names;
+  }
+
+  /** Collects the names of the "var"s declared in a function body, outside of nested functions. */
+  collectVarNames(node: ts.Node, names: string[]) {
+    ts.forEachChild(node, child => {
+      switch (child.kind) {
+        case ts.SyntaxKind.FunctionDeclaration:
+        case ts.SyntaxKind.FunctionExpression:
+        case ts.SyntaxKind.ArrowFunction:
+        case ts.SyntaxKind.ClassDeclaration:
+        case ts.SyntaxKind.ClassExpression:
+          return;
+        case ts.SyntaxKind.VariableDeclarationList:
+          const declList = child as ts.VariableDeclarationList;
+          if (!this.isBlockScoped(declList)) {
+            for (const decl of declList.declarations) this.collectBindingNames(decl.name, names);
+          }
+          break;
+        default:
+          break;
+      }
+      this.collectVarNames(child, names);
+    });
+  }
+
+  /** Collects the names of the "let"s, "const"s, functions and classes declared by statements. */
+  collectBlockScopedNames(statements: ts.NodeArray<ts.Statement>, names: string[]) {
+    for (const stmt of statements) {
+      if (stmt.kind === ts.SyntaxKind.VariableStatement) {
+        const declList = (stmt as ts.VariableStatement).declarationList;
+        if (!this.isBlockScoped(declList)) continue;
+        for (const decl of declList.declarations) this.collectBindingNames(decl.name, names);
+      } else if (
+          stmt.kind === ts.SyntaxKind.FunctionDeclaration ||
+          stmt.kind === ts.SyntaxKind.ClassDeclaration) {
+        const name = (stmt as ts.FunctionDeclaration | ts.ClassDeclaration).name;
+        if (name) names.push(getIdentifierText(name));
+      }
+    }
+  }
+
+  /** Returns true if the declaration list declares "let"s or "const"s rather than "var"s. */
+  isBlockScoped(declList: ts.VariableDeclarationList): boolean {
+    return (declList.flags & (ts.NodeFlags.Let | ts.NodeFlags.Const)) !== 0;
+  }
+
+  /** Collects the variable names declared by a (possibly destructuring) binding. */
+  collectBindingNames(name: ts.BindingName, names: string[]) {
+    if (name.kind === ts.SyntaxKind.Identifier) {
+      names.push(getIdentifierText(name as ts.Identifier));
+      return;
+    }
+    for (const element of (name as ts.BindingPattern).elements) {
+      if (element.kind === ts.SyntaxKind.BindingElement) {
+        this.collectBindingNames((element as ts.BindingElement).name, names);
+      }
+    }
+  }
+
   /**
    * Returns the string argument if call is of the form
    *   require('foo')
@@ -304,6 +700,29 @@ class ES5Processor extends Rewriter {
         this.writeRange(node.getFullStart(), node.getStart());
         this.emit(`${lhs}        `);
         return true;
+      case ts.SyntaxKind.Identifier:
+        // Reference live exports through exports, see liveExports.
+        const ident = node as ts.Identifier;
+        if (!this.liveExports.has(getIdentifierText(ident))) break;
+        if (!this.isModuleReference(ident)) break;
+        this.writeRange(node.getFullStart(), node.getStart());
+        this.emit(`exports.${getIdentifierText(ident)}`);
+        return true;
+      case ts.SyntaxKind.ShorthandPropertyAssignment:
+        // "{foo}" for a live export foo becomes "{foo: exports.foo}".
+        const shorthand = node as ts.ShorthandPropertyAssignment;
+        const shorthandName = getIdentifierText(shorthand.name);
+        if (!this.liveExports.has(shorthandName)) break;
+        if (!this.isModuleReference(shorthand.name)) break;
+        this.writeRange(node.getFullStart(), shorthand.name.getEnd());
+        this.emit(`: exports.${shorthandName}`);
+        if (shorthand.objectAssignmentInitializer) {
+          // A default value in a destructuring assignment, "({foo = 1} = bar)".
+          this.writeRange(
+              shorthand.name.getEnd(), shorthand.objectAssignmentInitializer.getFullStart());
+          this.visit(shorthand.objectAssignmentInitializer);
+        }
+        return true;
       default:
         break;
     }
@@ -317,7 +736,7 @@ class ES5Processor extends Rewriter {
 }
 
 /**
- * Converts TypeScript's JS+CommonJS output to Closure goog.module etc.
+ * Converts TypeScript's JS+CommonJS or JS+ES2015 module output to Closure goog.module etc.
  * For use as a postprocessing step *after* TypeScript emits JavaScript.
  *
  * @param fileName The source file name.
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import * as ts from 'typescript';
+
+import {EXTERNS_HEADER} from './tsickle';
+
+/** A single declaration in a generated externs file, including its JSDoc. */
+interface ExternsEntry {
+  /**
+   * The qualified name the entry declares, e.g. "foo.Bar.prototype.baz", or null for comments
+   * that declare nothing, such as the TODOs for unsupported constructs.
+   */
+  name: string|null;
+  text: string;
+  /** The offset of the entry in the file's externs, for reporting conflicts. */
+  start: number;
+}
+
+/**
+ * Returns the qualified name declared by a top-level statement of generated externs, see
+ * ExternsWriter, e.g. "foo.Bar" for "foo.Bar = function() {};" or "var foo = {};".
+ */
+function getDeclaredName(stmt: ts.Statement): string|null {
+  switch (stmt.kind) {
+    case ts.SyntaxKind.VariableStatement:
+      const declarations = (stmt as ts.VariableStatement).declarationList.declarations;
+      return declarations.map(decl => decl.name.getText()).join(', ');
+    case ts.SyntaxKind.FunctionDeclaration:
+      const name = (stmt as ts.FunctionDeclaration).name;
+      return name ? name.getText() : null;
+    case ts.SyntaxKind.ExpressionStatement:
+      let expr = (stmt as ts.ExpressionStatement).expression;
+      if (expr.kind === ts.SyntaxKind.BinaryExpression &&
+          (expr as ts.BinaryExpression).operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+        expr = (expr as ts.BinaryExpression).left;
+      }
+      return expr.getText();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits the externs generated by tsickle for a single file into its top-level declarations, in
+ * the order they were emitted.  Line comments, such as the "Derived from" notes, are dropped.
+ */
+function parseExterns(fileName: string, externs: string): ExternsEntry[] {
+  const sourceFile = ts.createSourceFile(fileName, externs, ts.ScriptTarget.ES5, true);
+  const headerEnd = externs.indexOf(EXTERNS_HEADER) === 0 ? EXTERNS_HEADER.length : 0;
+  const entries: ExternsEntry[] = [];
+  const statements: ts.Node[] = sourceFile.statements.slice();
+  // Comments at the end of the file are attached to the end of file token.
+  statements.push(sourceFile.endOfFileToken);
+  for (const stmt of statements) {
+    // The JSDoc of a declaration is the block comment directly preceding it, other block comments
+    // are entries of their own.
+    const comments = (ts.getLeadingCommentRanges(externs, stmt.getFullStart()) || [])
+                         .filter(range => range.pos >= headerEnd)
+                         .filter(range => range.kind === ts.SyntaxKind.MultiLineCommentTrivia);
+    let jsDoc: ts.CommentRange|null = null;
+    if (stmt.kind !== ts.SyntaxKind.EndOfFileToken && comments.length > 0 &&
+        externs.substring(comments[comments.length - 1].pos).indexOf('/**') === 0) {
+      jsDoc = comments.pop()!;
+    }
+    for (const comment of comments) {
+      entries.push(
+          {name: null, text: externs.substring(comment.pos, comment.end), start: comment.pos});
+    }
+    if (stmt.kind === ts.SyntaxKind.EndOfFileToken) continue;
+    const start = jsDoc ? jsDoc.pos : stmt.getStart();
+    const text =
+        jsDoc ? `${externs.substring(jsDoc.pos, jsDoc.end)}\n${stmt.getText()}` : stmt.getText();
+    entries.push({name: getDeclaredName(stmt as ts.Statement), text, start});
+  }
+  return entries;
+}
+
+/**
+ * Merges the externs generated for several files into a single externs file.  Declarations of
+ * the same qualified name, such as a namespace declared in several files, are emitted only once.
+ * Files are merged in the order of their names and each file's declarations are kept in the
+ * order they were emitted, as later declarations can refer to earlier ones, so that the output
+ * does not depend on the order in which files were processed.  Declarations of the same name that
+ * differ are reported as diagnostics, and the one from the file that sorts first is kept.
+ *
+ * @param externs A map from file name to the externs tsickle generated for it.
+ */
+export function aggregateExterns(externs: {[fileName: string]: string}):
+    {output: string, diagnostics: ts.Diagnostic[]} {
+  const declarations = new Map<string, {text: string, fileName: string}>();
+  const texts: string[] = [];
+  const comments = new Set<string>();
+  const diagnostics: ts.Diagnostic[] = [];
+  for (const fileName of Object.keys(externs).sort()) {
+    let sourceFile: ts.SourceFile|null = null;
+    for (const entry of parseExterns(fileName, externs[fileName])) {
+      if (entry.name === null) {
+        if (!comments.has(entry.text)) texts.push(entry.text);
+        comments.add(entry.text);
+        continue;
+      }
+      const existing = declarations.get(entry.name);
+      if (!existing) {
+        declarations.set(entry.name, {text: entry.text, fileName});
+        texts.push(entry.text);
+      } else if (existing.text !== entry.text) {
+        if (!sourceFile) {
+          // Positions refer to the file's externs rather than its source.
+          sourceFile =
+              ts.createSourceFile(`${fileName} (externs)`, externs[fileName], ts.ScriptTarget.ES5);
+        }
+        diagnostics.push({
+          file: sourceFile,
+          start: entry.start,
+          length: entry.text.length,
+          messageText: `externs for ${entry.name} conflict with those from ${existing.fileName}`,
+          category: ts.DiagnosticCategory.Error,
+          code: 0,
+        });
+      }
+    }
+  }
+  return {output: EXTERNS_HEADER + texts.map(text => `\n${text}\n`).join(''), diagnostics};
+}
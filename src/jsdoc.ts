@@ -278,6 +278,32 @@ export function toString(tags: Tag[], escapeExtraTags: string[] = []): string {
   return out;
 }
 
+/**
+ * Splits a Closure union type like "(string|number)" into its members, so
+ * that merged types don't repeat them.  Other types are returned as is.
+ */
+function splitUnionType(type: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < type.length; i++) {
+    const c = type[i];
+    if (c === '(' || c === '<' || c === '{' || c === '[') {
+      depth++;
+    } else if (c === ')' || c === '>' || c === '}' || c === ']') {
+      depth--;
+      // A closing paren before the end means the type isn't wrapped as a whole.
+      if (depth === 0 && i < type.length - 1 && type[0] === '(') return [type];
+    } else if (c === '|' && depth === 1 && type[0] === '(') {
+      parts.push(type.substring(start + 1, i));
+      start = i;
+    }
+  }
+  if (type[0] !== '(' || parts.length === 0) return [type];
+  parts.push(type.substring(start + 1, type.length - 1));
+  return parts;
+}
+
 /** Merges multiple tags (of the same tagName type) into a single unified tag. */
 export function merge(tags: Tag[]): Tag {
   let tagNames = new Set<string>();
@@ -290,7 +316,11 @@ export function merge(tags: Tag[]): Tag {
   for (const tag of tags) {
     if (tag.tagName) tagNames.add(tag.tagName);
     if (tag.parameterName) parameterNames.add(tag.parameterName);
-    if (tag.type) types.add(tag.type);
+    if (tag.type) {
+      // Flatten unions when merging, e.g. "(a|b)" and "b" into "a|b".
+      const members = tags.length > 1 ? splitUnionType(tag.type) : [tag.type];
+      for (const t of members) types.add(t);
+    }
     if (tag.text) texts.add(tag.text);
     if (tag.optional) optional = true;
     if (tag.restParam) restParam = true;
@@ -22,6 +22,9 @@ export interface Settings {
   /** If provided, path to save externs to. */
   externsPath?: string;
 
+  /** If provided, path to a directory of Closure externs whose symbols tsickle won't redeclare. */
+  closureExternsPath?: string;
+
   /** If provided, attempt to provide types rather than {?}. */
   isTyped?: boolean;
 
@@ -36,8 +39,9 @@ example:
   tsickle --externs=foo/externs.js -- -p src --noImplicitAny
 
 tsickle flags are:
-  --externs=PATH     save generated Closure externs.js to PATH
-  --typed            [experimental] attempt to provide Closure types instead of {?}
+  --externs=PATH         save generated Closure externs.js to PATH
+  --closure_externs=DIR  don't redeclare symbols declared by the Closure externs in DIR
+  --typed                [experimental] attempt to provide Closure types instead of {?}
 `);
 }
 
@@ -58,6 +62,9 @@ function loadSettingsFromArgs(args: string[]): {settings: Settings, tscArgs: str
       case 'externs':
         settings.externsPath = parsedArgs[flag];
         break;
+      case 'closure_externs':
+        settings.closureExternsPath = parsedArgs[flag];
+        break;
       case 'typed':
         settings.isTyped = true;
         break;
@@ -136,6 +143,9 @@ function getDefaultClosureJSOptions(fileNames: string[], settings: Settings): Cl
       googmodule: true,
       es5Mode: false,
       untyped: !settings.isTyped,
+      closureExterns: settings.closureExternsPath ?
+          tsickle.readClosureExterns(settings.closureExternsPath) :
+          undefined,
     },
     tsickleHost: {
       shouldSkipTsickleProcessing: (fileName) => fileNames.indexOf(fileName) === -1,
@@ -214,11 +224,12 @@ function main(args: string[]): number {
     return 1;
   }
 
-  if (config.options.module !== ts.ModuleKind.CommonJS) {
+  if (config.options.module !== ts.ModuleKind.CommonJS &&
+      config.options.module !== ts.ModuleKind.ES2015) {
     // This is not an upstream TypeScript diagnostic, therefore it does not go
     // through the diagnostics array mechanism.
     console.error(
-        'tsickle converts TypeScript modules to Closure modules via CommonJS internally. Set tsconfig.js "module": "commonjs"');
+        'tsickle converts TypeScript modules to Closure modules via CommonJS or ES2015 modules internally. Set tsconfig.json "module": "commonjs" or "es2015"');
     return 1;
   }
 
@@ -17,8 +17,10 @@ import {Options} from './tsickle_compiler_host';
 import * as typeTranslator from './type-translator';
 import {toArray} from './util';
 
+export {getClosureExternsNames, readClosureExterns} from './closure_externs';
 export {convertDecorators} from './decorator-annotator';
 export {processES5} from './es5processor';
+export {aggregateExterns} from './externs_aggregator';
 export {FileMap, ModulesManifest} from './modules_manifest';
 export {Options, Pass, TsickleCompilerHost, TsickleHost} from './tsickle_compiler_host';
 
@@ -34,24 +36,10 @@ export interface Output {
 }
 
 /**
- * Symbols that are already declared as externs in Closure, that should
- * be avoided by tsickle's "declare ..." => externs.js conversion.
+ * Symbols that Closure's own externs always declare, which tsickle's "declare ..." => externs.js
+ * conversion avoids in addition to those given in Options.closureExterns.
  */
-export let closureExternsBlacklist: string[] = [
-  'exports',
-  'global',
-  'module',
-  // ErrorConstructor is the interface of the Error object itself.
-  // tsickle detects that this is part of the TypeScript standard library
-  // and assumes it's part of the Closure standard library, but this
-  // assumption is wrong for ErrorConstructor.  To properly handle this
-  // we'd somehow need to map methods defined on the ErrorConstructor
-  // interface into properties on Closure's Error object, but for now it's
-  // simpler to just blacklist it.
-  'ErrorConstructor',
-  'Symbol',
-  'WorkerGlobalScope',
-];
+const CLOSURE_DECLARED_NAMES = ['exports', 'global', 'module', 'Symbol', 'WorkerGlobalScope'];
 
 export function formatDiagnostics(diags: ts.Diagnostic[]): string {
   return diags
@@ -74,24 +62,25 @@ function hasModifierFlag(node: ts.Node, flag: ts.ModifierFlags): boolean {
 }
 
 /**
- * TypeScript allows you to write identifiers quoted, like:
- *   interface Foo {
- *     'bar': string;
- *     'complex name': string;
- *   }
- *   Foo.bar;  // ok
- *   Foo['bar']  // ok
- *   Foo['complex name']  // ok
- *
- * In Closure-land, we want identify that the legal name 'bar' can become an
- * ordinary field, but we need to skip strings like 'complex name'.
+ * @return true if decl is a top-level "const" declaration, whose value Closure can then treat
+ *     as a constant too.
  */
-function isValidClosurePropertyName(name: string): boolean {
-  // In local experimentation, it appears that reserved words like 'var' and
-  // 'if' are legal JS and still accepted by Closure.
-  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name);
+function isModuleLevelConst(decl: ts.VariableDeclaration): boolean {
+  const declList = decl.parent;
+  if (!declList || !(declList.flags & ts.NodeFlags.Const)) return false;
+  const statement = declList.parent;
+  return !!statement && statement.kind === ts.SyntaxKind.VariableStatement && !!statement.parent &&
+      statement.parent.kind === ts.SyntaxKind.SourceFile;
 }
 
+/** The header of generated externs files. */
+export const EXTERNS_HEADER = `/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+`;
+
 export function isDtsFileName(fileName: string): boolean {
   return /\.d\.ts$/.test(fileName);
 }
@@ -118,6 +107,104 @@ function getParameterName(param: ts.ParameterDeclaration, index: number): string
   }
 }
 
+/**
+ * Returns the name of the ambient module (`declare module 'foo' {...}`) that declares the module
+ * symbol, or null if the module is not ambient.  goog: modules are not considered ambient, as
+ * they are provided by Closure code rather than described by externs.
+ */
+function getAmbientModuleName(moduleSymbol: ts.Symbol|undefined): string|null {
+  if (!moduleSymbol || !moduleSymbol.declarations || !moduleSymbol.declarations.length) return null;
+  let name: string|null = null;
+  for (const decl of moduleSymbol.declarations) {
+    const moduleName = (decl as ts.ModuleDeclaration).name;
+    if (decl.kind !== ts.SyntaxKind.ModuleDeclaration ||
+        moduleName.kind !== ts.SyntaxKind.StringLiteral) {
+      return null;
+    }
+    name = (moduleName as ts.StringLiteral).text;
+  }
+  if (name === null || extractGoogNamespaceImport(name) !== null) return null;
+  return name;
+}
+
+/**
+ * Returns the namespace that the ambient module with the given name is exposed as at runtime,
+ * either from Options.moduleGlobals or by mapping the module name through pathToModuleName.
+ */
+function getAmbientModuleNamespace(
+    moduleName: string, options: Options,
+    pathToModuleName: (context: string, importPath: string) => string): string {
+  if (options.moduleGlobals && options.moduleGlobals.hasOwnProperty(moduleName)) {
+    return options.moduleGlobals[moduleName];
+  }
+  // Module names can contain characters that are not valid in identifiers, like "-".
+  return pathToModuleName('', moduleName)
+      .split('.')
+      .map(part => part.replace(/[^A-Za-z0-9_$]/g, '_'))
+      .join('.');
+}
+
+/** Returns the "export = Foo;" statement among the given statements, if any. */
+function findExportEquals(statements: ts.Statement[]): ts.ExportAssignment|undefined {
+  return statements
+             .find(
+                 stmt => stmt.kind === ts.SyntaxKind.ExportAssignment &&
+                     !!(stmt as ts.ExportAssignment).isExportEquals) as ts.ExportAssignment |
+      undefined;
+}
+
+/**
+ * Returns the name of the namespace that the given statements of an ambient module export with
+ * "export = ns;", if any.  The namespace's members are the module's members, so they are emitted
+ * into the module's namespace directly, e.g. "lib.run" rather than "lib.ns.run".  Other exported
+ * entities, like functions, keep their own name within the module's namespace.
+ */
+function getExportEqualsNamespace(statements: ts.Statement[]): string|null {
+  const exportEquals = findExportEquals(statements);
+  if (!exportEquals || exportEquals.expression.kind !== ts.SyntaxKind.Identifier) return null;
+  const name = getIdentifierText(exportEquals.expression as ts.Identifier);
+  let declaresNamespace = false;
+  for (const stmt of statements) {
+    let names: ts.Node[] = [];
+    if (stmt.kind === ts.SyntaxKind.VariableStatement) {
+      names = (stmt as ts.VariableStatement).declarationList.declarations.map(d => d.name);
+    } else if ((stmt as ts.DeclarationStatement).name) {
+      names = [(stmt as ts.DeclarationStatement).name!];
+    }
+    if (!names.some(
+            n => n.kind === ts.SyntaxKind.Identifier &&
+                getIdentifierText(n as ts.Identifier) === name)) {
+      continue;
+    }
+    if (stmt.kind !== ts.SyntaxKind.ModuleDeclaration) return null;
+    declaresNamespace = true;
+  }
+  return declaresNamespace ? name : null;
+}
+
+/**
+ * Returns the runtime expression of the value of the ambient module with the given symbol, i.e.
+ * its namespace (see getAmbientModuleNamespace), or the entity within it that the module exports
+ * with "export =".
+ */
+function getAmbientModuleValue(
+    moduleSymbol: ts.Symbol, options: Options,
+    pathToModuleName: (context: string, importPath: string) => string): string {
+  const namespace =
+      getAmbientModuleNamespace(getAmbientModuleName(moduleSymbol)!, options, pathToModuleName);
+  for (const decl of moduleSymbol.declarations!) {
+    const body = (decl as ts.ModuleDeclaration).body;
+    if (!body || body.kind !== ts.SyntaxKind.ModuleBlock) continue;
+    const statements = (body as ts.ModuleBlock).statements;
+    const exportEquals = findExportEquals(statements);
+    if (exportEquals && exportEquals.expression.kind === ts.SyntaxKind.Identifier &&
+        getExportEqualsNamespace(statements) === null) {
+      return `${namespace}.${getIdentifierText(exportEquals.expression as ts.Identifier)}`;
+    }
+  }
+  return namespace;
+}
+
 const VISIBILITY_FLAGS: ts.ModifierFlags =
     ts.ModifierFlags.Private | ts.ModifierFlags.Protected | ts.ModifierFlags.Public;
 
@@ -153,6 +240,17 @@ class ClosureRewriter extends Rewriter {
    *    function statement; for overloads, name will have been merged.
    */
   emitFunctionType(fnDecls: ts.SignatureDeclaration[], extraTags: jsdoc.Tag[] = []): string[] {
+    const tags = this.getFunctionTypeJSDoc(fnDecls, extraTags);
+    this.emit('\n' + jsdoc.toString(tags));
+    return tags.filter(t => t.tagName === 'param').map(t => t.parameterName!);
+  }
+
+  /**
+   * Computes the JSDoc tags describing the type of the given function
+   * declarations, as emitted by emitFunctionType.
+   */
+  getFunctionTypeJSDoc(fnDecls: ts.SignatureDeclaration[], extraTags: jsdoc.Tag[] = []):
+      jsdoc.Tag[] {
     const typeChecker = this.program.getTypeChecker();
     let newDoc = extraTags;
     const lens = fnDecls.map(fnDecl => fnDecl.parameters.length);
@@ -166,6 +264,8 @@ class ClosureRewriter extends Rewriter {
     // then paramTags[0] = [info about x, info about y].
     const paramTags: jsdoc.Tag[][] = [];
     const returnTags: jsdoc.Tag[] = [];
+    const typeParameterNames = new Set<string>();
+    let thisTag: jsdoc.Tag|undefined;
 
     for (let fnDecl of fnDecls) {
       // Construct the JSDoc comment by reading the existing JSDoc, if
@@ -175,16 +275,23 @@ class ClosureRewriter extends Rewriter {
 
       // Copy all the tags other than @param/@return into the new
       // JSDoc without any change; @param/@return are handled specially.
+      // Tags repeated on several overloads, e.g. @deprecated, are copied once.
       // TODO: there may be problems if an annotation doesn't apply to all overloads;
       // is it worth checking for this and erroring?
       for (let tag of jsDoc) {
         if (tag.tagName === 'param' || tag.tagName === 'return') continue;
-        newDoc.push(tag);
+        addUniqueTag(newDoc, tag);
       }
 
       // Add @abstract on "abstract" declarations.
       if (hasModifierFlag(fnDecl, ts.ModifierFlags.Abstract)) {
-        newDoc.push({tagName: 'abstract'});
+        addUniqueTag(newDoc, {tagName: 'abstract'});
+      }
+
+      if (fnDecl.typeParameters && typeTranslator.isTemplateDeclaration(fnDecl)) {
+        for (const typeParam of fnDecl.typeParameters) {
+          typeParameterNames.add(getIdentifierText(typeParam.name));
+        }
       }
 
       // Merge the parameters into a single list of merged names and list of types
@@ -209,7 +316,17 @@ class ClosureRewriter extends Rewriter {
           // the Array<> wrapper.
           type = (type as ts.TypeReference).typeArguments[0];
         }
-        newTag.type = this.typeToClosure(fnDecl, type);
+        if (newTag.optional && type.flags & ts.TypeFlags.Union &&
+            (type as ts.UnionType).types.some(t => (t.flags & ts.TypeFlags.Undefined) !== 0)) {
+          // The "=" of optional parameters already implies undefined, so emit e.g. {string=}
+          // rather than {(undefined|string)=}.
+          const includesNull =
+              (type as ts.UnionType).types.some(t => (t.flags & ts.TypeFlags.Null) !== 0);
+          newTag.type = this.typeToClosure(fnDecl, typeChecker.getNonNullableType(type));
+          if (includesNull) newTag.type = typeTranslator.nullable(newTag.type);
+        } else {
+          newTag.type = this.typeToClosure(fnDecl, type);
+        }
 
         for (let {tagName, parameterName, text} of jsDoc) {
           if (tagName === 'param' && parameterName === newTag.parameterName) {
@@ -224,6 +341,14 @@ class ClosureRewriter extends Rewriter {
       // Return type.
       if (!isConstructor) {
         let retType = typeChecker.getReturnTypeOfSignature(sig);
+        const isMethod = fnDecl.kind === ts.SyntaxKind.MethodDeclaration ||
+            fnDecl.kind === ts.SyntaxKind.MethodSignature;
+        if (isMethod && typeTranslator.isThisType(retType) && !thisTag &&
+            !fnDecl.parameters.some(p => getParameterName(p, 0) === 'this')) {
+          // Methods returning "this" are typically fluent APIs; state the receiver type
+          // explicitly so the returned object is typed as the enclosing class.
+          thisTag = {tagName: 'this', type: this.typeToClosure(fnDecl, retType)};
+        }
         let retTypeString: string = this.typeToClosure(fnDecl, retType);
         let returnDoc: string|undefined;
         for (let {tagName, text} of jsDoc) {
@@ -240,13 +365,24 @@ class ClosureRewriter extends Rewriter {
       }
     }
 
+    if (typeParameterNames.size > 0 && !this.options.untyped) {
+      newDoc.push({tagName: 'template', text: toArray(typeParameterNames.values()).join(', ')});
+    }
+    if (thisTag) newDoc.push(thisTag);
+
     // Merge the JSDoc tags for each overloaded parameter.
     // Ensure each parameter has a unique name; the merging process can otherwise
     // accidentally generate the same parameter name twice.
     let paramNames = new Set();
     let foundOptional = false;
+    const impl = fnDecls.find(d => (d as ts.FunctionLikeDeclaration).body !== undefined);
     for (let i = 0; i < maxArgsCount; i++) {
       let paramTag = jsdoc.merge(paramTags[i]);
+      if (impl && i < impl.parameters.length && paramTag.tagName === 'param') {
+        // Closure requires the @param names to match the parameters of the
+        // implementation that is actually emitted.
+        paramTag.parameterName = getParameterName(impl.parameters[i], i);
+      }
       if (paramNames.has(paramTag.parameterName)) {
         paramTag.parameterName += i.toString();
       }
@@ -271,8 +407,83 @@ class ClosureRewriter extends Rewriter {
       newDoc.push(jsdoc.merge(returnTags));
     }
 
-    this.emit('\n' + jsdoc.toString(newDoc));
-    return newDoc.filter(t => t.tagName === 'param').map(t => t.parameterName!);
+    return newDoc;
+  }
+
+  /**
+   * Returns all overload declarations of the given function or method
+   * implementation, followed by the implementation itself, so that its
+   * JSDoc reflects every signature callers may use.
+   */
+  getOverloadDeclarations(fnDecl: ts.FunctionLikeDeclaration): ts.SignatureDeclaration[] {
+    if (fnDecl.kind !== ts.SyntaxKind.FunctionDeclaration &&
+        fnDecl.kind !== ts.SyntaxKind.MethodDeclaration) {
+      return [fnDecl];
+    }
+    if (!fnDecl.name) return [fnDecl];
+    const sym = this.program.getTypeChecker().getSymbolAtLocation(fnDecl.name);
+    if (!sym || !sym.declarations) return [fnDecl];
+    const overloads = sym.declarations.filter(
+        d => d.kind === fnDecl.kind && !(d as ts.FunctionLikeDeclaration).body);
+    return (overloads as ts.SignatureDeclaration[]).concat([fnDecl]);
+  }
+
+  /**
+   * Adds an IObject supertype to docTags if decl has an index signature, e.g. for
+   *   interface Foo { [key: string]: number; }
+   * it adds "@extends {IObject<string,number>}" (or @implements for classes).
+   */
+  maybeAddIndexSignatureClause(
+      docTags: jsdoc.Tag[], decl: ts.InterfaceDeclaration|ts.ClassDeclaration) {
+    if (this.options.untyped) return;
+    const tagName = decl.kind === ts.SyntaxKind.InterfaceDeclaration ? 'extends' : 'implements';
+    for (const member of decl.members) {
+      if (member.kind !== ts.SyntaxKind.IndexSignature) continue;
+      const indexSig = member as ts.IndexSignatureDeclaration;
+      const keyTypeNode = indexSig.parameters[0] && indexSig.parameters[0].type;
+      if (!keyTypeNode || !indexSig.type) continue;
+      const keyType = keyTypeNode.kind === ts.SyntaxKind.NumberKeyword ? 'number' : 'string';
+      const valueType = this.typeToClosure(
+          indexSig, this.program.getTypeChecker().getTypeAtLocation(indexSig.type));
+      docTags.push({tagName, type: `IObject<${keyType},${valueType}>`});
+    }
+  }
+
+  /**
+   * Adds an @template clause to docTags if decl has type parameters, e.g. for
+   *   class Foo<T, U> {}
+   * it adds "@template T, U".
+   */
+  maybeAddTemplateClause(
+      docTags: jsdoc.Tag[],
+      decl: ts.ClassDeclaration|ts.InterfaceDeclaration|ts.SignatureDeclaration) {
+    if (this.options.untyped || !decl.typeParameters) return;
+    const names = decl.typeParameters.map(tp => getIdentifierText(tp.name));
+    docTags.push({tagName: 'template', text: names.join(', ')});
+  }
+
+  /**
+   * Adds an @extends clause to docTags for each interface that iface extends, e.g. for
+   *   interface A extends B, C {}
+   * it adds "@extends {B}" and "@extends {C}".  Closure records can only extend other records,
+   * so classes and types without a Closure name (e.g. type/value conflicts) are skipped.
+   */
+  maybeAddHeritageClauses(docTags: jsdoc.Tag[], iface: ts.InterfaceDeclaration) {
+    if (this.options.untyped || !iface.heritageClauses) return;
+    const typeChecker = this.program.getTypeChecker();
+    for (const heritage of iface.heritageClauses) {
+      if (!heritage.types) continue;
+      for (const base of heritage.types) {
+        let sym = typeChecker.getSymbolAtLocation(base.expression);
+        if (!sym) continue;
+        if (sym.flags & ts.SymbolFlags.Alias) sym = typeChecker.getAliasedSymbol(sym);
+        if (sym.flags & ts.SymbolFlags.Class) continue;
+        const typeStr = this.typeToClosure(base, typeChecker.getTypeAtLocation(base));
+        if (typeStr === '?') continue;
+        // typeToClosure includes the non-nullability modifier, which @extends doesn't allow.
+        docTags.push({tagName: 'extends', type: typeStr.replace(/^!/, '')});
+      }
+    }
   }
 
   /**
@@ -312,6 +523,73 @@ class ClosureRewriter extends Rewriter {
     this.emit(` @type {${this.typeToClosure(node, type)}} */`);
   }
 
+  /** The suffix for the names of interfaces that are also values, see Options. */
+  typeValueConflictSuffix(): string {
+    return this.options.typeValueConflictSuffix || '$Type';
+  }
+
+  /** See typeTranslator.hasTypeValueConflict. */
+  hasTypeValueConflict(sym: ts.Symbol): boolean {
+    return typeTranslator.hasTypeValueConflict(sym, this.options.closureExterns);
+  }
+
+  /**
+   * Returns the Closure name of an interface, which differs from its TypeScript name if the
+   * interface is also a value.
+   */
+  getInterfaceName(iface: ts.InterfaceDeclaration): string {
+    const name = getIdentifierText(iface.name);
+    const sym = this.program.getTypeChecker().getSymbolAtLocation(iface.name);
+    if (!this.hasTypeValueConflict(sym)) return name;
+    return name + this.typeValueConflictSuffix();
+  }
+
+  /**
+   * Registers the symbols declared by the given statements to be emitted qualified with the
+   * namespace, including the members of nested namespaces, e.g. "foo.Bar" and "foo.ns.Baz".
+   */
+  aliasDeclaredSymbols(statements: ts.Statement[], namespace: string) {
+    const typeChecker = this.program.getTypeChecker();
+    // The namespace exported by "export = ns;" is the module namespace itself.
+    const exportedNamespace = getExportEqualsNamespace(statements);
+    const qualify = (name: string) =>
+        name === exportedNamespace ? namespace : `${namespace}.${name}`;
+    for (const stmt of statements) {
+      let names: ts.Node[] = [];
+      if (stmt.kind === ts.SyntaxKind.VariableStatement) {
+        names = (stmt as ts.VariableStatement).declarationList.declarations.map(d => d.name);
+      } else if ((stmt as ts.DeclarationStatement).name) {
+        names = [(stmt as ts.DeclarationStatement).name!];
+      }
+      for (const name of names) {
+        if (name.kind !== ts.SyntaxKind.Identifier) continue;
+        const sym = typeChecker.getSymbolAtLocation(name);
+        if (sym)
+          this.symbolsToAliasedNames.set(sym, qualify(getIdentifierText(name as ts.Identifier)));
+      }
+      if (stmt.kind === ts.SyntaxKind.ModuleDeclaration && names.length) {
+        // E.g. "namespace ns {...}" or "namespace ns.inner {...}".
+        const body = (stmt as ts.ModuleDeclaration).body;
+        const nested = qualify(getIdentifierText(names[0] as ts.Identifier));
+        if (body && body.kind === ts.SyntaxKind.ModuleBlock) {
+          this.aliasDeclaredSymbols((body as ts.ModuleBlock).statements, nested);
+        } else if (body) {
+          this.aliasDeclaredSymbols([body as ts.ModuleDeclaration], nested);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the type of the property declared by a getter or setter, i.e. the
+   * getter's return type, or the setter's parameter type if there's no getter.
+   */
+  getAccessorPropertyType(accessor: ts.AccessorDeclaration): ts.Type {
+    const typeChecker = this.program.getTypeChecker();
+    const sym = typeChecker.getSymbolAtLocation(accessor.name);
+    return typeChecker.getTypeOfSymbolAtLocation(sym, accessor);
+  }
+
   /**
    * Convert a TypeScript ts.Type into the equivalent Closure type.
    *
@@ -331,6 +609,14 @@ class ClosureRewriter extends Rewriter {
     let translator = new typeTranslator.TypeTranslator(
         typeChecker, context, this.options.typeBlackListPaths, this.symbolsToAliasedNames);
     translator.warn = msg => this.debugWarn(context, msg);
+    if (this.options.tupleTranslation) translator.tupleTranslation = this.options.tupleTranslation;
+    translator.closureEnums = !!this.options.closureEnums;
+    translator.closureExterns = this.options.closureExterns;
+    if (this.options.indexSignatureTranslation) {
+      translator.indexSignatureTranslation = this.options.indexSignatureTranslation;
+    }
+    translator.typeValueConflictSuffix = this.typeValueConflictSuffix();
+    translator.strictNullChecks = !!this.program.getCompilerOptions().strictNullChecks;
     return translator.translate(type);
   }
 
@@ -369,12 +655,22 @@ class Annotator extends ClosureRewriter {
   /** Externs determined by an exporting decorator. */
   private exportingDecoratorExterns: string[] = [];
 
+  /**
+   * The runtime expressions of names imported from ambient modules, keyed by their local symbol,
+   * see emitAmbientModuleImport.
+   */
+  private ambientModuleImports = new Map<ts.Symbol, string>();
+
+  /** The enum whose non-constant member initializers are being emitted, see emitEnumInitializer. */
+  private enumInitializerScope: {name: string, symbol: ts.Symbol, qualified: Set<ts.Node>}|null =
+      null;
+
   constructor(
       program: ts.Program, file: ts.SourceFile, options: Options,
       private pathToModuleName: (context: string, importPath: string) => string,
       private host?: ts.ModuleResolutionHost, private tsOpts?: ts.CompilerOptions) {
     super(program, file, options);
-    this.externsWriter = new ExternsWriter(program, file, options);
+    this.externsWriter = new ExternsWriter(program, file, options, pathToModuleName);
   }
 
   annotate(): Output {
@@ -386,13 +682,7 @@ class Annotator extends ClosureRewriter {
     let externsSource: string|null = null;
 
     if (externs.output.length > 0 || this.exportingDecoratorExterns.length > 0) {
-      externsSource = `/**
- * @externs
- * @suppress {duplicate}
- */
-// NOTE: generated by tsickle, do not edit.
-` + externs.output +
-          this.formatExportingDecoratorExterns();
+      externsSource = EXTERNS_HEADER + externs.output + this.formatExportingDecoratorExterns();
     }
 
     return {
@@ -496,6 +786,11 @@ class Annotator extends ClosureRewriter {
       }
     }
 
+    if (this.enumInitializerScope && this.maybeQualifyEnumMemberReference(node)) return true;
+    if (this.ambientModuleImports.size > 0 && this.maybeEmitAmbientModuleReference(node)) {
+      return true;
+    }
+
     switch (node.kind) {
       case ts.SyntaxKind.ImportDeclaration:
         return this.emitImportDeclaration(node as ts.ImportDeclaration);
@@ -539,7 +834,7 @@ class Annotator extends ClosureRewriter {
         // not a binding pattern, as Closure doesn't(?) have a syntax
         // for annotating binding patterns.  See issue #128.
         if (varDecl.name.kind === ts.SyntaxKind.Identifier) {
-          this.emitJSDocType(varDecl);
+          this.emitJSDocType(varDecl, isModuleLevelConst(varDecl) ? '@const' : undefined);
         }
         return false;
       case ts.SyntaxKind.ClassDeclaration:
@@ -574,10 +869,38 @@ class Annotator extends ClosureRewriter {
         this.writeRange(offset, node.getEnd());
         return true;
       case ts.SyntaxKind.ArrowFunction:
-        // It's difficult to annotate arrow functions due to a bug in
-        // TypeScript (see tsickle issue 57).  For now, just pass them
-        // through unannotated.
-        return false;
+      case ts.SyntaxKind.FunctionExpression:
+        // Annotate function expressions with a cast to their (possibly
+        // contextually inferred) signature, e.g.
+        //   foo(/** @type {function(number): number} */ ((x) => x + 1));
+        // Untyped output would only gain {?} annotations, so skip it there.
+        if (this.options.untyped) return false;
+        const fnExpr = node as ts.ArrowFunction | ts.FunctionExpression;
+        const fnType = getFunctionTypeFromTags(this.getFunctionTypeJSDoc([fnExpr]));
+        // Closure function types cannot declare template types.
+        if (fnType === null) return false;
+        // TypeScript drops comments that follow e.g. "=" or "return" on the
+        // same line, so outside of argument lists and literals the cast goes on
+        // a new line, in parens so that no semicolon is inserted after "return".
+        const parent = fnExpr.parent!;
+        const keepsComments = parent.kind === ts.SyntaxKind.CallExpression ||
+            parent.kind === ts.SyntaxKind.NewExpression ||
+            parent.kind === ts.SyntaxKind.ArrayLiteralExpression ||
+            parent.kind === ts.SyntaxKind.PropertyAssignment;
+        this.writeRange(fnExpr.getFullStart(), fnExpr.getStart());
+        if (!keepsComments) this.emit('(\n');
+        this.emit(`/** @type {${fnType}} */ (`);
+        // Visit the parameters, whose initializers may need rewriting as well.
+        let fnOffset = fnExpr.getStart();
+        for (let param of fnExpr.parameters) {
+          this.writeRange(fnOffset, param.getFullStart());
+          this.visit(param);
+          fnOffset = param.getEnd();
+        }
+        this.writeRange(fnOffset, fnExpr.body.getFullStart());
+        this.visit(fnExpr.body);
+        this.emit(keepsComments ? ')' : '))');
+        return true;
       case ts.SyntaxKind.FunctionDeclaration:
       case ts.SyntaxKind.MethodDeclaration:
       case ts.SyntaxKind.GetAccessor:
@@ -586,7 +909,7 @@ class Annotator extends ClosureRewriter {
 
         if (!fnDecl.body) {
           if (hasModifierFlag(fnDecl, ts.ModifierFlags.Abstract)) {
-            this.emitFunctionType([fnDecl]);
+            this.emitFunctionType([fnDecl], this.getVisibilityTags(fnDecl));
             // Abstract functions look like
             //   abstract foo();
             // Emit the function as normal, except:
@@ -605,12 +928,12 @@ class Annotator extends ClosureRewriter {
             return true;
           }
           // Functions are allowed to not have bodies in the presence
-          // of overloads.  It's not clear how to translate these overloads
-          // into Closure types, so skip them for now.
+          // of overloads.  The overloads are merged into the JSDoc of the
+          // implementation below, so pass them through unannotated.
           return false;
         }
 
-        this.emitFunctionType([fnDecl]);
+        this.emitFunctionType(this.getOverloadDeclarations(fnDecl), this.getVisibilityTags(fnDecl));
         this.writeRange(fnDecl.getStart(), fnDecl.body.getFullStart());
         this.visit(fnDecl.body);
         return true;
@@ -654,6 +977,10 @@ class Annotator extends ClosureRewriter {
         return true;
       case ts.SyntaxKind.PropertyDeclaration:
       case ts.SyntaxKind.VariableStatement:
+        if (node.kind === ts.SyntaxKind.VariableStatement &&
+            this.maybeProcessStringEnum(node as ts.VariableStatement)) {
+          return true;
+        }
         const jsDoc = this.getJSDoc(node);
         if (jsDoc && jsDoc.length > 0 && node.getFirstToken()) {
           this.emit('\n');
@@ -737,6 +1064,14 @@ class Annotator extends ClosureRewriter {
     const typeChecker = this.program.getTypeChecker();
     for (let sym of exports) {
       if (sym.flags & ts.SymbolFlags.Alias) sym = typeChecker.getAliasedSymbol(sym);
+      if (this.hasTypeValueConflict(sym)) {
+        // TypeScript re-exports the value, but not the distinctly named Closure type.
+        const name = sym.name + this.typeValueConflictSuffix();
+        const typeName =
+            (this.symbolsToAliasedNames.get(sym) || sym.name) + this.typeValueConflictSuffix();
+        this.emit(`\n/** @typedef {${typeName}} */\nexports.${name}; // re-export typedef`);
+        continue;
+      }
       const isTypeAlias =
           (sym.flags & ts.SymbolFlags.TypeAlias) !== 0 && (sym.flags & ts.SymbolFlags.Value) === 0;
       if (!isTypeAlias) continue;
@@ -782,6 +1117,11 @@ class Annotator extends ClosureRewriter {
    * @return true if the decl was handled, false to allow default processing.
    */
   private emitImportDeclaration(decl: ts.ImportDeclaration): boolean {
+    const moduleSymbol = this.program.getTypeChecker().getSymbolAtLocation(decl.moduleSpecifier);
+    if (getAmbientModuleName(moduleSymbol) !== null) {
+      this.emitAmbientModuleImport(decl, moduleSymbol);
+      return true;
+    }
     this.writeRange(decl.getFullStart(), decl.getStart());
     this.emit('import');
     const importPath = this.resolveModuleSpecifier(decl.moduleSpecifier);
@@ -840,6 +1180,71 @@ class Annotator extends ClosureRewriter {
     }
   }
 
+  /**
+   * Ambient modules describe libraries that are exposed as a global namespace at runtime, not
+   * goog.modules that could be required (see getAmbientModuleNamespace).  Drops imports from
+   * them, and registers the imported names to be referenced through the namespace instead, e.g.
+   * "_.chain(...)" for "import {chain} from 'lodash'" and "_.VERSION" for
+   * "import * as lodash from 'lodash'; lodash.VERSION".
+   */
+  private emitAmbientModuleImport(decl: ts.ImportDeclaration, moduleSymbol: ts.Symbol) {
+    const typeChecker = this.program.getTypeChecker();
+    const moduleValue = getAmbientModuleValue(moduleSymbol, this.options, this.pathToModuleName);
+    // Keep the comments preceding the import.
+    this.writeRange(decl.getFullStart(), decl.getStart());
+    const importClause = decl.importClause;
+    if (importClause && importClause.name) {
+      // import foo from ...;
+      this.ambientModuleImports.set(
+          typeChecker.getSymbolAtLocation(importClause.name), `${moduleValue}.default`);
+    }
+    const namedBindings = importClause && importClause.namedBindings;
+    if (namedBindings && namedBindings.kind === ts.SyntaxKind.NamespaceImport) {
+      // import * as foo from ...;
+      this.ambientModuleImports.set(
+          typeChecker.getSymbolAtLocation((namedBindings as ts.NamespaceImport).name), moduleValue);
+    } else if (namedBindings) {
+      // import {a as b} from ...;
+      for (const element of (namedBindings as ts.NamedImports).elements) {
+        const name = getIdentifierText(element.propertyName || element.name);
+        this.ambientModuleImports.set(
+            typeChecker.getSymbolAtLocation(element.name), `${moduleValue}.${name}`);
+      }
+    }
+    // Types from the module are referenced through its namespace, too.
+    if (!this.options.untyped) this.aliasAmbientModuleSymbols(moduleSymbol);
+  }
+
+  /**
+   * Emits a value reference to a name imported from an ambient module through the module's
+   * namespace, see emitAmbientModuleImport.
+   * @return True if node was such a reference and has been emitted.
+   */
+  private maybeEmitAmbientModuleReference(node: ts.Node): boolean {
+    const typeChecker = this.program.getTypeChecker();
+    let sym: ts.Symbol|undefined;
+    if (node.kind === ts.SyntaxKind.Identifier) {
+      // References in types are erased, and resolved through symbolsToAliasedNames for JSDoc.
+      const parent = node.parent!;
+      if (parent.kind === ts.SyntaxKind.QualifiedName ||
+          parent.kind === ts.SyntaxKind.TypeReference || parent.kind === ts.SyntaxKind.TypeQuery) {
+        return false;
+      }
+      sym = typeChecker.getSymbolAtLocation(node);
+    } else if (node.kind === ts.SyntaxKind.ShorthandPropertyAssignment) {
+      sym = typeChecker.getShorthandAssignmentValueSymbol(node);
+    }
+    const value = sym && this.ambientModuleImports.get(sym);
+    if (!value) return false;
+    this.writeRange(node.getFullStart(), node.getStart());
+    if (node.kind === ts.SyntaxKind.ShorthandPropertyAssignment) {
+      // E.g. "{chain}", which needs to become "{chain: _.chain}".
+      this.emit(`${getIdentifierText((node as ts.ShorthandPropertyAssignment).name)}: `);
+    }
+    this.emit(value);
+    return true;
+  }
+
   private forwardDeclareCounter = 0;
 
   /**
@@ -848,6 +1253,13 @@ class Annotator extends ClosureRewriter {
    */
   private forwardDeclare(specifier: ts.Expression, symbols: ts.Symbol[], isDefaultImport = false) {
     if (this.options.untyped) return;
+    const moduleSymbol = this.program.getTypeChecker().getSymbolAtLocation(specifier);
+    if (getAmbientModuleName(moduleSymbol) !== null) {
+      // Ambient modules are not goog.modules that could be forward declared, their externs are
+      // emitted into a namespace instead.
+      this.aliasAmbientModuleSymbols(moduleSymbol);
+      return;
+    }
     const importPath = this.resolveModuleSpecifier(specifier);
     const nsImport = extractGoogNamespaceImport(importPath);
     const forwardDeclarePrefix = `tsickle_forward_declare_${++this.forwardDeclareCounter}`;
@@ -884,11 +1296,69 @@ class Annotator extends ClosureRewriter {
     }
   }
 
+  /**
+   * Registers the symbols declared in an ambient module to be emitted through the namespace its
+   * externs are emitted into (see ExternsWriter), e.g. "_.Chain" for "import {Chain} from
+   * 'lodash'" if Options.moduleGlobals maps 'lodash' to '_'.  This also covers modules that
+   * "export =" a namespace declared within them, whose members are the module's members, see
+   * getExportEqualsNamespace.
+   */
+  private aliasAmbientModuleSymbols(moduleSymbol: ts.Symbol) {
+    const namespace = getAmbientModuleNamespace(
+        getAmbientModuleName(moduleSymbol)!, this.options, this.pathToModuleName);
+    for (const decl of moduleSymbol.declarations!) {
+      const body = (decl as ts.ModuleDeclaration).body;
+      if (body && body.kind === ts.SyntaxKind.ModuleBlock) {
+        this.aliasDeclaredSymbols((body as ts.ModuleBlock).statements, namespace);
+      }
+    }
+  }
+
+  /**
+   * Returns the Closure @private or @protected tag for a class member with that TypeScript
+   * visibility, if Options.emitVisibilityTags is set.
+   */
+  private getVisibilityTags(member: ts.Node): jsdoc.Tag[] {
+    if (!this.options.emitVisibilityTags) return [];
+    if (hasModifierFlag(member, ts.ModifierFlags.Private)) return [{tagName: 'private'}];
+    if (hasModifierFlag(member, ts.ModifierFlags.Protected)) return [{tagName: 'protected'}];
+    return [];
+  }
+
+  /**
+   * Returns true if classDecl can't be subclassed, i.e. its constructor is private and no class
+   * in the program extends it.
+   */
+  private isFinalClass(classDecl: ts.ClassDeclaration): boolean {
+    const ctor = classDecl.members.find(m => m.kind === ts.SyntaxKind.Constructor);
+    if (!ctor || !hasModifierFlag(ctor, ts.ModifierFlags.Private) || !classDecl.name) {
+      return false;
+    }
+    const typeChecker = this.program.getTypeChecker();
+    const sym = typeChecker.getSymbolAtLocation(classDecl.name);
+    const extendsClass = (node: ts.Node): boolean => {
+      if (node.kind === ts.SyntaxKind.HeritageClause &&
+          (node as ts.HeritageClause).token === ts.SyntaxKind.ExtendsKeyword) {
+        for (const type of (node as ts.HeritageClause).types || []) {
+          let base = typeChecker.getSymbolAtLocation(type.expression);
+          if (base && base.flags & ts.SymbolFlags.Alias) {
+            base = typeChecker.getAliasedSymbol(base);
+          }
+          if (base === sym) return true;
+        }
+      }
+      return ts.forEachChild(node, extendsClass) || false;
+    };
+    return !this.program.getSourceFiles().some(sf => !sf.isDeclarationFile && extendsClass(sf));
+  }
+
   private visitClassDeclaration(classDecl: ts.ClassDeclaration) {
     let jsDoc = this.getJSDoc(classDecl) || [];
     if (hasModifierFlag(classDecl, ts.ModifierFlags.Abstract)) {
       jsDoc.push({tagName: 'abstract'});
     }
+    this.maybeAddTemplateClause(jsDoc, classDecl);
+    if (this.isFinalClass(classDecl)) jsDoc.push({tagName: 'final'});
 
     if (!this.options.untyped && classDecl.heritageClauses) {
       // If the class has "extends Foo", that is preserved in the ES6 output
@@ -922,6 +1392,11 @@ class Annotator extends ClosureRewriter {
             }
             if (sym.flags & ts.SymbolFlags.Class) {
               tagName = 'extends';
+            } else if (this.hasTypeValueConflict(sym)) {
+              // The interface is emitted under a distinct name, see getInterfaceName.
+              // typeToClosure includes nullability modifiers, so strip them.
+              jsDoc.push({tagName, type: this.typeToClosure(impl).replace(/^!/, '')});
+              continue;
             } else if (sym.flags & ts.SymbolFlags.Value) {
               // If the symbol was already in the value namespace, then it will
               // not be a type in the Closure output (because Closure collapses
@@ -958,23 +1433,28 @@ class Annotator extends ClosureRewriter {
     if (this.options.untyped) return;
 
     // If this symbol is both a type and a value, we cannot emit both into Closure's
-    // single namespace.
+    // single namespace.  Interfaces get a distinct name then, see getInterfaceName; for other
+    // values (e.g. classes merged with the interface) there's nothing to emit.
     let sym = this.program.getTypeChecker().getSymbolAtLocation(iface.name);
-    if (sym.flags & ts.SymbolFlags.Value) return;
+    if (sym.flags & ts.SymbolFlags.Value && !this.hasTypeValueConflict(sym)) return;
 
-    this.emit(`\n/** @record */\n`);
+    const tags: jsdoc.Tag[] = [{tagName: 'record'}];
+    this.maybeAddTemplateClause(tags, iface);
+    this.maybeAddHeritageClauses(tags, iface);
+    this.maybeAddIndexSignatureClause(tags, iface);
+    this.emit('\n' + (tags.length === 1 ? '/** @record */\n' : jsdoc.toString(tags)));
     if (hasModifierFlag(iface, ts.ModifierFlags.Export)) this.emit('export ');
-    let name = getIdentifierText(iface.name);
+    let name = this.getInterfaceName(iface);
     this.emit(`function ${name}() {}\n`);
-    if (iface.typeParameters) {
-      this.emit(`// TODO: type parameters.\n`);
-    }
-    if (iface.heritageClauses) {
-      this.emit(`// TODO: derived interfaces.\n`);
-    }
 
     const memberNamespace = [name, 'prototype'];
     for (let elem of iface.members) {
+      // Index signatures are declared by maybeAddIndexSignatureClause above.  Types with call
+      // signatures are translated to function types, so there's nothing to declare for those.
+      if (elem.kind === ts.SyntaxKind.IndexSignature || elem.kind === ts.SyntaxKind.CallSignature ||
+          elem.kind === ts.SyntaxKind.ConstructSignature) {
+        continue;
+      }
       this.visitProperty(memberNamespace, elem);
     }
   }
@@ -991,6 +1471,8 @@ class Annotator extends ClosureRewriter {
     let paramProps: ts.ParameterDeclaration[] = [];
     let nonStaticProps: ts.PropertyDeclaration[] = [];
     let staticProps: ts.PropertyDeclaration[] = [];
+    let nonStaticAccessors: ts.AccessorDeclaration[] = [];
+    let staticAccessors: ts.AccessorDeclaration[] = [];
     for (let member of classDecl.members) {
       if (member.kind === ts.SyntaxKind.Constructor) {
         ctors.push(member as ts.ConstructorDeclaration);
@@ -1002,15 +1484,26 @@ class Annotator extends ClosureRewriter {
         } else {
           nonStaticProps.push(prop);
         }
+      } else if (
+          member.kind === ts.SyntaxKind.GetAccessor || member.kind === ts.SyntaxKind.SetAccessor) {
+        let accessor = member as ts.AccessorDeclaration;
+        let accessors = hasModifierFlag(accessor, ts.ModifierFlags.Static) ? staticAccessors :
+                                                                             nonStaticAccessors;
+        // A getter/setter pair declares a single property.
+        let name = this.propertyName(accessor);
+        if (!accessors.some(a => this.propertyName(a) === name)) accessors.push(accessor);
       }
     }
 
     if (ctors.length > 0) {
       let ctor = ctors[0];
-      paramProps = ctor.parameters.filter(p => hasModifierFlag(p, VISIBILITY_FLAGS));
+      // A "readonly" modifier alone also declares a parameter property.
+      paramProps = ctor.parameters.filter(
+          p => hasModifierFlag(p, VISIBILITY_FLAGS | ts.ModifierFlags.Readonly));
     }
 
-    if (nonStaticProps.length === 0 && paramProps.length === 0 && staticProps.length === 0) {
+    if (nonStaticProps.length === 0 && paramProps.length === 0 && staticProps.length === 0 &&
+        nonStaticAccessors.length === 0 && staticAccessors.length === 0) {
       // There are no members so we don't need to emit any type
       // annotations helper.
       return;
@@ -1021,9 +1514,11 @@ class Annotator extends ClosureRewriter {
 
     this.emit(`\n\nfunction ${className}_tsickle_Closure_declarations() {\n`);
     staticProps.forEach(p => this.visitProperty([className], p));
+    staticAccessors.forEach(a => this.visitAccessor([className], a));
     let memberNamespace = [className, 'prototype'];
     nonStaticProps.forEach((p) => this.visitProperty(memberNamespace, p));
     paramProps.forEach((p) => this.visitProperty(memberNamespace, p));
+    nonStaticAccessors.forEach((a) => this.visitAccessor(memberNamespace, a));
     this.emit(`}\n`);
   }
 
@@ -1044,12 +1539,14 @@ class Annotator extends ClosureRewriter {
 
   private visitProperty(namespace: string[], p: ts.Declaration) {
     let name = this.propertyName(p);
-    if (!name) {
+    if (!name || !typeTranslator.isValidClosurePropertyName(name)) {
       this.emit(`/* TODO: handle strange member:\n${this.escapeForComment(p.getText())}\n*/\n`);
       return;
     }
 
     let tags = this.getJSDoc(p) || [];
+    tags.push(...this.getVisibilityTags(p));
+    if (hasModifierFlag(p, ts.ModifierFlags.Readonly)) tags.push({tagName: 'const'});
     tags.push({tagName: 'type', type: this.typeToClosure(p)});
     // Avoid printing annotations that can conflict with @type
     // This avoids Closure's error "type annotation incompatible with other annotations"
@@ -1058,14 +1555,47 @@ class Annotator extends ClosureRewriter {
     this.emit(`${namespace.join('.')};\n`);
   }
 
+  /**
+   * Declares the property backed by a getter and/or setter, marking it @const
+   * if it has no setter.
+   */
+  private visitAccessor(namespace: string[], accessor: ts.AccessorDeclaration) {
+    let name = this.propertyName(accessor);
+    if (!name || !typeTranslator.isValidClosurePropertyName(name)) {
+      this.emit(
+          `/* TODO: handle strange member:\n${this.escapeForComment(accessor.getText())}\n*/\n`);
+      return;
+    }
+
+    const sym = this.program.getTypeChecker().getSymbolAtLocation(accessor.name);
+    let tags = this.getVisibilityTags(accessor);
+    if (!(sym.flags & ts.SymbolFlags.SetAccessor)) tags.push({tagName: 'const'});
+    tags.push({
+      tagName: 'type',
+      type: this.typeToClosure(accessor, this.getAccessorPropertyType(accessor))
+    });
+    this.emit(jsdoc.toString(tags));
+    namespace = namespace.concat([name]);
+    this.emit(`${namespace.join('.')};\n`);
+  }
+
   private visitTypeAlias(node: ts.TypeAliasDeclaration) {
     if (this.options.untyped) return;
 
     // If the type is also defined as a value, skip emitting it. Closure collapses type & value
     // namespaces, the two emits would conflict if tsickle emitted both.
-    let sym = this.program.getTypeChecker().getSymbolAtLocation(node.name);
+    const typeChecker = this.program.getTypeChecker();
+    let sym = typeChecker.getSymbolAtLocation(node.name);
     if (sym.flags & ts.SymbolFlags.Value) return;
 
+    if (this.options.closureEnums && typeTranslator.isStringLiteralUnion(typeChecker, sym)) {
+      const name = getIdentifierText(node.name);
+      this.debugWarn(
+          node,
+          `string literal union ${name} is emitted as a typedef, declare its values in ` +
+              `a const ${name} to emit a Closure @enum`);
+    }
+
     // Write a Closure typedef, which involves an unused "var" declaration.
     // Note: in the case of an export, we cannot emit a literal "var" because
     // TypeScript drops exports that are never assigned to (and Closure
@@ -1080,6 +1610,50 @@ class Annotator extends ClosureRewriter {
     this.emit(`${node.name.getText()};\n`);
   }
 
+  /**
+   * Emits the const object through which the values of a string literal union are referenced as
+   * a Closure @enum, see getStringEnumDeclaration, or returns false for ordinary processing.
+   * Exported enums are declared locally and exported separately, as Closure only resolves the
+   * type name of a local enum:
+   *   /** @enum {string} *\/
+   *   const Shape = {Circle: 'circle', Square: 'square'};
+   *   export {Shape};
+   */
+  private maybeProcessStringEnum(node: ts.VariableStatement): boolean {
+    if (!this.options.closureEnums || this.options.untyped) return false;
+    const decl = node.declarationList.declarations[0];
+    if (decl.name.kind !== ts.SyntaxKind.Identifier) return false;
+    const typeChecker = this.program.getTypeChecker();
+    const sym = typeChecker.getSymbolAtLocation(decl.name);
+    if (typeTranslator.getStringEnumDeclaration(typeChecker, sym) !== decl) return false;
+    this.writeRange(node.getFullStart(), node.getStart());
+    this.emit('/** @enum {string} */\nconst');
+    // The @enum replaces the declaration's type annotation, and the type assertions that
+    // TypeScript needs for the values, e.g. "'red' as Color", whose Closure casts would
+    // reference the enum within its own definition.
+    const literal = decl.initializer as ts.ObjectLiteralExpression;
+    let pos = decl.getFullStart();
+    for (const prop of literal.properties) {
+      this.writeRange(pos, prop.getFullStart());
+      const value = (prop as ts.PropertyAssignment).initializer;
+      if (prop.kind === ts.SyntaxKind.PropertyAssignment &&
+          (value.kind === ts.SyntaxKind.AsExpression ||
+           value.kind === ts.SyntaxKind.TypeAssertionExpression)) {
+        this.writeRange(prop.getFullStart(), value.getStart());
+        this.visit((value as ts.AssertionExpression).expression);
+      } else {
+        this.visit(prop);
+      }
+      pos = prop.getEnd();
+    }
+    this.writeRange(pos, node.declarationList.getEnd());
+    this.emit(';');
+    if (hasModifierFlag(node, ts.ModifierFlags.Export)) {
+      this.emit(`\nexport {${getIdentifierText(decl.name as ts.Identifier)}};`);
+    }
+    return true;
+  }
+
   /** Processes an EnumDeclaration or returns false for ordinary processing. */
   private maybeProcessEnum(node: ts.EnumDeclaration): boolean {
     if (hasModifierFlag(node, ts.ModifierFlags.Const)) {
@@ -1090,10 +1664,22 @@ class Annotator extends ClosureRewriter {
 
     // Gather the members of enum, saving the constant value or
     // initializer expression in the case of a non-constant value.
-    let members = new Map<string, number|ts.Node>();
+    let members = new Map<string, number|ts.Expression>();
     let i = 0;
     for (let member of node.members) {
-      let memberName = member.name.getText();
+      let memberName: string;
+      switch (member.name.kind) {
+        case ts.SyntaxKind.Identifier:
+          memberName = getIdentifierText(member.name as ts.Identifier);
+          break;
+        case ts.SyntaxKind.StringLiteral:
+          // E.g. "enum Foo { 'bar-baz' }".
+          memberName = (member.name as ts.StringLiteral).text;
+          break;
+        default:
+          this.errorUnimplementedKind(member.name, 'enum member name');
+          continue;
+      }
       if (member.initializer) {
         let enumConstValue = this.program.getTypeChecker().getConstantValue(member);
         if (enumConstValue !== undefined) {
@@ -1101,20 +1687,8 @@ class Annotator extends ClosureRewriter {
           i = enumConstValue + 1;
         } else {
           // Non-constant enum value.  Save the initializer expression for
-          // emitting as-is.
-          // Note: if the member's initializer expression refers to another
-          // value within the enum (e.g. something like
-          //   enum Foo {
-          //     Field1,
-          //     Field2 = Field1 + something(),
-          //   }
-          // Then when we emit the initializer we produce invalid code because
-          // on the Closure side it has to be written "Foo.Field1 + something()".
-          // Hopefully this doesn't come up often -- if the enum instead has
-          // something like
-          //     Field2 = Field1 + 3,
-          // then it's still a constant expression and we inline the constant
-          // value in the above branch of this "if" statement.
+          // emitting as-is, see emitEnumInitializer for how references to
+          // other members of the enum are handled.
           members.set(memberName, member.initializer);
         }
       } else {
@@ -1131,43 +1705,244 @@ class Annotator extends ClosureRewriter {
     // a bit difficult to provide a type that matches all the interfaces
     // expected of an enum (in particular, it is keyable both by
     // string and number).
-    // We don't emit a specific Closure type for the enum because it's
-    // also difficult to make work: for example, we can't make the name
-    // both a typedef and an indexable object if we export it.
+    // By default we don't emit a specific Closure type for the enum because
+    // it's also difficult to make work: for example, we can't make the name
+    // both a typedef and an indexable object if we export it.  The
+    // closureEnums option emits a Closure @enum instead, see below.
     this.emit('\n');
     let name = node.name.getText();
     const isExported = hasModifierFlag(node, ts.ModifierFlags.Export);
     if (isExported) this.emit('export ');
     this.emit(`type ${name} = number;\n`);
-    if (isExported) this.emit('export ');
-    this.emit(`let ${name}: any = {};\n`);
-
-    // Emit foo.BAR = 0; lines.
-    for (let member of toArray(members.keys())) {
-      if (!this.options.untyped) this.emit(`/** @type {number} */\n`);
-      this.emit(`${name}.${member} = `);
-      let value = members.get(member)!;
-      if (typeof value === 'number') {
-        this.emit(value.toString());
-      } else {
-        this.visit(value);
+
+    const typeChecker = this.program.getTypeChecker();
+    const isClosureEnum = this.options.closureEnums && !this.options.untyped &&
+        typeTranslator.isClosureEnum(typeChecker, typeChecker.getSymbolAtLocation(node.name));
+    if (isClosureEnum) {
+      // Emit a Closure enum with all members in an object literal, e.g.
+      //   /** @enum {number} */
+      //   const Foo: any = {BAR: 0, BAZ: 1};
+      // This is only possible if all values are constants, as the initializers
+      // would otherwise be evaluated before the enum object exists.
+      // Exported enums are declared locally and exported separately, as Closure
+      // doesn't know the enum type under its "exports.Foo" name.
+      const values = toArray(members.keys()).map(member => {
+        const key =
+            typeTranslator.isValidClosurePropertyName(member) ? member : JSON.stringify(member);
+        return `${key}: ${members.get(member)}`;
+      });
+      this.emit(`/** @enum {number} */\n`);
+      this.emit(`const ${name}: any = {${values.join(', ')}};\n`);
+      if (isExported) this.emit(`export {${name}};\n`);
+    } else {
+      if (isExported) this.emit('export ');
+      this.emit(`let ${name}: any = {};\n`);
+
+      // Emit foo.BAR = 0; lines.
+      const enumSymbol = typeChecker.getSymbolAtLocation(node.name);
+      for (let member of toArray(members.keys())) {
+        let value = members.get(member)!;
+        if (!this.options.untyped) {
+          const type = typeof value === 'number' ? 'number' : this.getEnumInitializerType(value);
+          this.emit(`/** @type {${type}} */\n`);
+        }
+        this.emit(`${name}${enumMemberAccess(member)} = `);
+        if (typeof value === 'number') {
+          this.emit(value.toString());
+        } else {
+          this.emitEnumInitializer(value, name, enumSymbol);
+        }
+        this.emit(';\n');
       }
-      this.emit(';\n');
     }
 
-    // Emit foo[foo.BAR] = 'BAR'; lines.
-    for (let member of toArray(members.keys())) {
-      this.emit(`${name}[${name}.${member}] = "${member}";\n`);
+    // Emit foo[foo.BAR] = 'BAR'; lines.  Closure enums can't have additional
+    // keys, so for those the reverse mapping is opt-in.
+    if (!isClosureEnum || this.options.enumReverseMapping) {
+      for (let member of toArray(members.keys())) {
+        this.emit(`${name}[${name}${enumMemberAccess(member)}] = ${JSON.stringify(member)};\n`);
+      }
     }
 
     return true;
   }
+
+  /**
+   * Emits a non-constant enum member initializer.  References to other
+   * members of the same enum must be qualified, as on the Closure side the
+   * members are only reachable through the enum object, e.g.
+   *   enum Foo {
+   *     Field1 = 1 << 0,
+   *     Field2 = Field1 | something(),
+   *   }
+   * becomes "Foo.Field2 = Foo.Field1 | something();".
+   */
+  private emitEnumInitializer(node: ts.Expression, enumName: string, enumSymbol: ts.Symbol) {
+    const outerScope = this.enumInitializerScope;
+    const qualified = new Set<ts.Node>();
+    this.enumInitializerScope = {name: enumName, symbol: enumSymbol, qualified};
+    this.visit(node);
+    this.enumInitializerScope = outerScope;
+    // Some code is emitted as written, e.g. statements with JSDoc comments, so references
+    // within it cannot be qualified.
+    const reportUnqualified = (child: ts.Node) => {
+      if (this.isEnumMemberReference(child, enumSymbol) && !qualified.has(child)) {
+        const member = child.kind === ts.SyntaxKind.ShorthandPropertyAssignment ?
+            (child as ts.ShorthandPropertyAssignment).name :
+            child as ts.Identifier;
+        this.error(
+            child,
+            `cannot rewrite reference to member ${getIdentifierText(member)} of enum ` +
+                `${enumName}, reference it as ${enumName}.${getIdentifierText(member)} instead`);
+        return;
+      }
+      ts.forEachChild(child, reportUnqualified);
+    };
+    reportUnqualified(node);
+  }
+
+  /**
+   * Qualifies a reference to a member of the enum whose initializers are being emitted, see
+   * emitEnumInitializer.
+   * @return True if node was such a reference and has been emitted.
+   */
+  private maybeQualifyEnumMemberReference(node: ts.Node): boolean {
+    const {name: enumName, symbol: enumSymbol, qualified} = this.enumInitializerScope!;
+    if (!this.isEnumMemberReference(node, enumSymbol)) return false;
+    qualified.add(node);
+    switch (node.kind) {
+      case ts.SyntaxKind.Identifier:
+        this.writeRange(node.getFullStart(), node.getStart());
+        this.emit(`${enumName}${enumMemberAccess(getIdentifierText(node as ts.Identifier))}`);
+        return true;
+      case ts.SyntaxKind.ShorthandPropertyAssignment:
+        // E.g. "{Field1}", which needs to become "{Field1: Foo.Field1}".
+        const name = getIdentifierText((node as ts.ShorthandPropertyAssignment).name);
+        this.writeRange(node.getFullStart(), node.getStart());
+        this.emit(`${name}: ${enumName}${enumMemberAccess(name)}`);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * @return True if node is an unqualified reference to a member of the enum
+   *     with the given symbol.
+   */
+  private isEnumMemberReference(node: ts.Node, enumSymbol: ts.Symbol): boolean {
+    const typeChecker = this.program.getTypeChecker();
+    let sym: ts.Symbol|undefined;
+    if (node.kind === ts.SyntaxKind.Identifier) {
+      const parent = node.parent!;
+      // The "Field1" in "Foo.Field1", "{Field1: 1}" or the type "Foo.Field1" is not a reference.
+      const isName = (parent.kind === ts.SyntaxKind.PropertyAccessExpression &&
+                      (parent as ts.PropertyAccessExpression).name === node) ||
+          (parent.kind === ts.SyntaxKind.PropertyAssignment &&
+           (parent as ts.PropertyAssignment).name === node) ||
+          (parent.kind === ts.SyntaxKind.QualifiedName &&
+           (parent as ts.QualifiedName).right === node);
+      if (!isName) sym = typeChecker.getSymbolAtLocation(node);
+    } else if (node.kind === ts.SyntaxKind.ShorthandPropertyAssignment) {
+      sym = typeChecker.getShorthandAssignmentValueSymbol(node);
+    }
+    if (!sym || !(sym.flags & ts.SymbolFlags.EnumMember) || !sym.declarations) return false;
+    const enumDecl = sym.declarations[0].parent as ts.EnumDeclaration;
+    return typeChecker.getSymbolAtLocation(enumDecl.name) === enumSymbol;
+  }
+
+  /**
+   * @return The Closure type of a non-constant enum member initializer.
+   *     TypeScript only allows number or any typed initializers, but "any" is
+   *     commonly used for string-valued members, e.g. "Foo = <any>'foo'".
+   */
+  private getEnumInitializerType(initializer: ts.Expression): string {
+    let expr = initializer;
+    while (expr.kind === ts.SyntaxKind.ParenthesizedExpression ||
+           expr.kind === ts.SyntaxKind.TypeAssertionExpression ||
+           expr.kind === ts.SyntaxKind.AsExpression) {
+      expr = (expr as ts.ParenthesizedExpression | ts.AssertionExpression).expression;
+    }
+    const type = this.program.getTypeChecker().getTypeAtLocation(expr);
+    if (type.flags & ts.TypeFlags.StringLike) return 'string';
+    if (type.flags & ts.TypeFlags.NumberLike) return 'number';
+    return '?';
+  }
+}
+
+/**
+ * Converts the JSDoc tags of a function, as computed by getFunctionTypeJSDoc, to a Closure
+ * function type, e.g. "function(this:Foo, number, string=): boolean".  Returns null for generic
+ * functions, as function types cannot declare template types.
+ */
+function getFunctionTypeFromTags(tags: jsdoc.Tag[]): string|null {
+  const params: string[] = [];
+  let returnType = '?';
+  for (const tag of tags) {
+    switch (tag.tagName) {
+      case 'template':
+        return null;
+      case 'this':
+        params.unshift(`this:${tag.type}`);
+        break;
+      case 'param':
+        params.push(tag.restParam ? `...${tag.type}` : tag.type + (tag.optional ? '=' : ''));
+        break;
+      case 'return':
+        returnType = tag.type!;
+        break;
+      default:
+        break;
+    }
+  }
+  return `function(${params.join(', ')}): ${returnType}`;
+}
+
+/** Adds tag to tags unless an equal tag, with the same name, type and text, is present. */
+function addUniqueTag(tags: jsdoc.Tag[], tag: jsdoc.Tag) {
+  if (tags.some(t => t.tagName === tag.tagName && t.type === tag.type && t.text === tag.text)) {
+    return;
+  }
+  tags.push(tag);
+}
+
+/**
+ * @return The property access for an enum member, e.g. ".BAR" or the escaped
+ *     '["bar-baz"]' for names that are not valid identifiers.
+ */
+function enumMemberAccess(member: string): string {
+  return typeTranslator.isValidClosurePropertyName(member) ? `.${member}` :
+                                                             `[${JSON.stringify(member)}]`;
 }
 
 /** ExternsWriter generates Closure externs from TypeScript source. */
 class ExternsWriter extends ClosureRewriter {
+  /** The qualified names that Closure's externs already declare, see isClosureDeclared. */
+  private closureDeclared = new Set<string>();
+
+  constructor(
+      program: ts.Program, file: ts.SourceFile, options: Options,
+      private pathToModuleName: (context: string, importPath: string) => string) {
+    super(program, file, options);
+    CLOSURE_DECLARED_NAMES.forEach(name => this.closureDeclared.add(name));
+    if (options.closureExterns) {
+      options.closureExterns.forEach(name => this.closureDeclared.add(name));
+    }
+  }
+
+  /**
+   * The global name of a UMD module ("export as namespace foo;") that has no "export =", whose
+   * exported declarations are emitted into that namespace.
+   */
+  private umdNamespace: string|null = null;
+
   /** visit is the main entry point.  It generates externs from a ts.Node. */
   public visit(node: ts.Node, namespace: string[] = []) {
+    if (namespace.length === 0 && node.parent && node.parent.kind === ts.SyntaxKind.SourceFile &&
+        hasModifierFlag(node, ts.ModifierFlags.Export)) {
+      const umdNamespace = this.getUmdNamespace();
+      if (umdNamespace) namespace = [umdNamespace];
+    }
     switch (node.kind) {
       case ts.SyntaxKind.SourceFile:
         let sourceFile = node as ts.SourceFile;
@@ -1179,39 +1954,60 @@ class ExternsWriter extends ClosureRewriter {
         let decl = <ts.ModuleDeclaration>node;
         switch (decl.name.kind) {
           case ts.SyntaxKind.Identifier:
+            if (decl.flags & ts.NodeFlags.GlobalAugmentation) {
+              // E.g. "declare global { interface Window {...} }", whose
+              // declarations augment the global scope.
+              if (decl.body) this.visit(decl.body, []);
+              break;
+            }
             // E.g. "declare namespace foo {"
             let name = getIdentifierText(decl.name as ts.Identifier);
             if (name === undefined) break;
-            if (this.isFirstDeclaration(decl)) {
+            // The namespace exported by "export = ns;" from an ambient module is emitted as the
+            // module's namespace, see getExportEqualsNamespace.
+            const isModuleExport = decl.parent!.kind === ts.SyntaxKind.ModuleBlock &&
+                getExportEqualsNamespace((decl.parent as ts.ModuleBlock).statements) === name;
+            const declNamespace = isModuleExport ? namespace : namespace.concat(name);
+            if (!isModuleExport && this.isFirstDeclaration(decl) && !this.mergesWithValue(decl) &&
+                !this.isClosureDeclared(declNamespace)) {
               this.emit('/** @const */\n');
               this.writeExternsVariable(name, namespace, '{}');
             }
-            if (decl.body) this.visit(decl.body, namespace.concat(name));
+            // Within the namespace its members are referenced by their unqualified names,
+            // e.g. "Foo" in "interface Bar extends Foo".
+            if (decl.body && decl.body.kind === ts.SyntaxKind.ModuleBlock) {
+              this.aliasDeclaredSymbols(
+                  (decl.body as ts.ModuleBlock).statements, declNamespace.join('.'));
+            }
+            if (decl.body) this.visit(decl.body, declNamespace);
             break;
           case ts.SyntaxKind.StringLiteral:
             // E.g. "declare module 'foo' {" (note the quotes).
-            // We still want to emit externs for this module, but
-            // Closure doesn't really provide a mechanism for
-            // module-scoped externs.  For now, ignore the enclosing
-            // namespace (because this is declaring a top-level module)
-            // and emit into a fake namespace.
-
-            // Declare the top-level "tsickle_declare_module".
-            this.emit('/** @const */\n');
-            this.writeExternsVariable('tsickle_declare_module', [], '{}');
-            namespace = ['tsickle_declare_module'];
-
-            // Declare the inner "tsickle_declare_module.foo".
-            let importName = (decl.name as ts.StringLiteral).text;
-            this.emit(`// Derived from: declare module "${importName}"\n`);
-            // We also don't care about the actual name of the module ("foo"
-            // in the above example), except that we want it to not conflict.
-            importName = importName.replace(/[^A-Za-z]/g, '_');
-            this.emit('/** @const */\n');
-            this.writeExternsVariable(importName, namespace, '{}');
-
-            // Declare the contents inside the "tsickle_declare_module.foo".
-            if (decl.body) this.visit(decl.body, namespace.concat(importName));
+            // Closure doesn't provide a mechanism for module-scoped externs, so
+            // emit the module's contents into the namespace it is exposed as at
+            // runtime, see getAmbientModuleNamespace.
+            const typeChecker = this.program.getTypeChecker();
+            const moduleSymbol = typeChecker.getSymbolAtLocation(decl.name);
+            const moduleName = getAmbientModuleName(moduleSymbol);
+            // goog: modules are provided by Closure code, which needs no externs.
+            if (moduleName === null) break;
+            const moduleNamespace =
+                getAmbientModuleNamespace(moduleName, this.options, this.pathToModuleName)
+                    .split('.');
+            this.emit(`// Derived from: declare module "${moduleName}"\n`);
+            if (this.isFirstDeclaration(decl)) {
+              for (let i = 0; i < moduleNamespace.length; i++) {
+                this.emit('/** @const */\n');
+                this.writeExternsVariable(moduleNamespace[i], moduleNamespace.slice(0, i), '{}');
+              }
+            }
+            // Types declared within the module are referenced by their
+            // unqualified names, qualify them with the namespace.
+            if (decl.body && decl.body.kind === ts.SyntaxKind.ModuleBlock) {
+              this.aliasDeclaredSymbols(
+                  (decl.body as ts.ModuleBlock).statements, moduleNamespace.join('.'));
+            }
+            if (decl.body) this.visit(decl.body, moduleNamespace);
             break;
           default:
             this.errorUnimplementedKind(decl.name, 'externs generation of namespace');
@@ -1241,7 +2037,7 @@ class ExternsWriter extends ClosureRewriter {
                                  d => d.kind ===
                                      ts.SyntaxKind.FunctionDeclaration) as ts.FunctionDeclaration[];
         // Only emit the first declaration of each overloaded function.
-        if (fnDecl !== decls[0]) break;
+        if (fnDecl !== decls[0] || this.isClosureDeclared(namespace.concat([name.text]))) break;
         const params = this.emitFunctionType(decls);
         this.writeExternsFunction(name.getText(), params, namespace);
         break;
@@ -1256,10 +2052,139 @@ class ExternsWriter extends ClosureRewriter {
       case ts.SyntaxKind.TypeAliasDeclaration:
         this.writeExternsTypeAlias(node as ts.TypeAliasDeclaration, namespace);
         break;
+      case ts.SyntaxKind.ExportAssignment:
+        const exportAssignment = node as ts.ExportAssignment;
+        if (!exportAssignment.isExportEquals) {
+          this.writeExternsDefaultExport(exportAssignment, exportAssignment.expression, namespace);
+          break;
+        }
+        // E.g. "export = Foo;".  The exported entity is declared by its own
+        // statement, and within ambient modules it is referenced through the
+        // module's namespace (see aliasDeclaredSymbols).  Only UMD modules
+        // need their global name declared, see NamespaceExportDeclaration.
+        break;
+      case ts.SyntaxKind.NamespaceExportDeclaration:
+        // E.g. "export as namespace foo;", which declares the global "foo"
+        // for the module in a UMD .d.ts file.  The global is either a
+        // namespace of the module's exports, or the entity exported by
+        // "export = Foo;", see emitUmdAlias.
+        this.getUmdNamespace();
+        break;
       default:
         this.emit(`\n/* TODO: ${ts.SyntaxKind[node.kind]} in ${namespace.join('.')} */\n`);
         break;
     }
+    if (hasModifierFlag(node, ts.ModifierFlags.Default) && (node as ts.DeclarationStatement).name &&
+        this.isFirstDeclaration(node as ts.DeclarationStatement)) {
+      // E.g. "export default function foo() {}", declared as "foo" above.
+      this.writeExternsDefaultExport(node, (node as ts.DeclarationStatement).name!, namespace);
+    }
+    const statements = this.file.statements;
+    if (node === statements[statements.length - 1]) this.emitUmdAlias();
+  }
+
+  /**
+   * Declares the default export of an ambient module, e.g. "export default foo;", as an alias of
+   * the exported entity, e.g. "lib.default = lib.foo", which is how its importers reference it.
+   */
+  private writeExternsDefaultExport(node: ts.Node, expression: ts.Expression, namespace: string[]) {
+    if (namespace.length === 0) {
+      // Not within an ambient module, so there's no namespace to declare the export on.
+      this.debugWarn(node, 'unhandled default export in externs');
+      return;
+    }
+    const typeChecker = this.program.getTypeChecker();
+    let sym = expression.kind === ts.SyntaxKind.Identifier ?
+        typeChecker.getSymbolAtLocation(expression) :
+        undefined;
+    if (sym && sym.flags & ts.SymbolFlags.Alias) sym = typeChecker.getAliasedSymbol(sym);
+    if (!sym || !(sym.flags & ts.SymbolFlags.Value)) {
+      this.error(
+          node,
+          `default export in externs must be a value declared by name, ` +
+              `e.g. "export default foo;"`);
+      return;
+    }
+    if (this.isClosureDeclared(namespace.concat(['default']))) return;
+    const target =
+        this.symbolsToAliasedNames.get(sym) || getIdentifierText(expression as ts.Identifier);
+    this.emit('/** @const */\n');
+    this.writeExternsVariable('default', namespace, target);
+  }
+
+  /** Returns the "export = Foo;" statement of the file, if any. */
+  private getExportEquals(): ts.ExportAssignment|undefined {
+    return findExportEquals(this.file.statements);
+  }
+
+  /**
+   * Declares the global name of a UMD module with "export = Foo;" as an alias of Foo, e.g.
+   *   export = Moment;
+   *   export as namespace moment;
+   * declares "moment" as "Moment".  This is emitted after all declarations of the file, so that
+   * Closure knows the aliased entity.
+   */
+  private emitUmdAlias() {
+    const umdExport =
+        this.file.statements
+            .find(
+                stmt => stmt.kind ===
+                    ts.SyntaxKind.NamespaceExportDeclaration) as ts.NamespaceExportDeclaration |
+        undefined;
+    const exportEquals = this.getExportEquals();
+    if (!umdExport || !exportEquals) return;
+    const globalName = getIdentifierText(umdExport.name);
+    const target = exportEquals.expression.getText();
+    if (target === globalName) return;
+    this.emit('/** @const */\n');
+    this.writeExternsVariable(globalName, [], target);
+  }
+
+  /**
+   * Returns the global name of the file if it is a UMD module without "export =", and declares
+   * the namespace for it the first time this is called.
+   */
+  private getUmdNamespace(): string|null {
+    if (this.umdNamespace !== null) return this.umdNamespace;
+    const umdExport =
+        this.file.statements
+            .find(
+                stmt => stmt.kind ===
+                    ts.SyntaxKind.NamespaceExportDeclaration) as ts.NamespaceExportDeclaration |
+        undefined;
+    if (!umdExport || this.getExportEquals()) return null;
+    this.umdNamespace = getIdentifierText(umdExport.name);
+    this.emit('/** @const */\n');
+    this.writeExternsVariable(this.umdNamespace, [], '{}');
+    const exported =
+        this.file.statements.filter(stmt => hasModifierFlag(stmt, ts.ModifierFlags.Export));
+    this.aliasDeclaredSymbols(exported, this.umdNamespace);
+    return this.umdNamespace;
+  }
+
+  /**
+   * Emits the JSDoc for a declaration in externs with the given tags, carrying over the
+   * documentation of docNode, e.g. its description and @deprecated, so that Closure warns about
+   * uses of deprecated APIs.  Undocumented declarations get the tags on a single line.
+   */
+  private emitExternsJSDoc(docNode: ts.Node, tags: jsdoc.Tag[]) {
+    const docTags = this.getJSDoc(docNode) || [];
+    if (docTags.length === 0) {
+      const tagStrings =
+          tags.map(tag => tag.type ? `@${tag.tagName} {${tag.type}}` : `@${tag.tagName}`);
+      this.emit(`/** ${tagStrings.join(' ')} */`);
+      return;
+    }
+    // Tags like @param can't be combined with the declaration's own tags.
+    this.emit(jsdoc.toString(docTags.concat(tags), ['param', 'return']).replace(/\n$/, ''));
+  }
+
+  /**
+   * Returns true if Closure's externs, including those given in Options.closureExterns, already
+   * declare the qualified name, so that declaring it again would conflict.
+   */
+  private isClosureDeclared(qualifiedName: string[]): boolean {
+    return this.closureDeclared.has(qualifiedName.join('.'));
   }
 
   /**
@@ -1273,8 +2198,29 @@ class ExternsWriter extends ClosureRewriter {
     if (!decl.name) return true;
     const typeChecker = this.program.getTypeChecker();
     const sym = typeChecker.getSymbolAtLocation(decl.name);
-    if (!sym.declarations || sym.declarations.length < 2) return true;
-    return decl === sym.declarations[0];
+    let decls = sym.declarations;
+    if (decls && this.hasTypeValueConflict(sym)) {
+      // The interface is emitted separately from the value, under its own name.
+      const isInterface = (d: ts.Declaration) => d.kind === ts.SyntaxKind.InterfaceDeclaration;
+      decls = decls.filter(d => isInterface(d) === isInterface(decl));
+    }
+    if (decls && decl.kind !== ts.SyntaxKind.ModuleDeclaration) {
+      // Namespaces merged with e.g. a class don't declare the value, see mergesWithValue.
+      decls = decls.filter(d => d.kind !== ts.SyntaxKind.ModuleDeclaration);
+    }
+    if (!decls || decls.length < 2) return true;
+    return decl === decls[0];
+  }
+
+  /**
+   * Returns true if the namespace merges with a class, function or enum of the same name.  The
+   * declaration of that value declares the object, and the namespace's members become its static
+   * properties, so the namespace must not redeclare it as {}.
+   */
+  private mergesWithValue(decl: ts.ModuleDeclaration): boolean {
+    const sym = this.program.getTypeChecker().getSymbolAtLocation(decl.name);
+    return (sym.flags & (ts.SymbolFlags.Class | ts.SymbolFlags.Function | ts.SymbolFlags.Enum)) !==
+        0;
   }
 
   private writeExternsType(decl: ts.InterfaceDeclaration|ts.ClassDeclaration, namespace: string[]) {
@@ -1283,46 +2229,82 @@ class ExternsWriter extends ClosureRewriter {
       this.error(decl, 'anonymous type in externs');
       return;
     }
-    let typeName = namespace.concat([name.getText()]).join('.');
-    if (closureExternsBlacklist.indexOf(typeName) >= 0) return;
-
-    if (this.isFirstDeclaration(decl)) {
+    const declName = decl.kind === ts.SyntaxKind.InterfaceDeclaration ?
+        this.getInterfaceName(decl as ts.InterfaceDeclaration) :
+        name.getText();
+    let typeName = namespace.concat([declName]).join('.');
+    // ErrorConstructor is the interface of the Error object itself.
+    // tsickle detects that this is part of the TypeScript standard library
+    // and assumes it's part of the Closure standard library, but this
+    // assumption is wrong for ErrorConstructor.  To properly handle this
+    // we'd somehow need to map methods defined on the ErrorConstructor
+    // interface into properties on Closure's Error object, but for now it's
+    // simpler to just skip it.
+    if (typeName === 'ErrorConstructor') return;
+
+    if (this.isFirstDeclaration(decl) && !this.isClosureDeclared([typeName])) {
       let paramNames: string[] = [];
       if (decl.kind === ts.SyntaxKind.ClassDeclaration) {
         let ctors =
             (<ts.ClassDeclaration>decl).members.filter((m) => m.kind === ts.SyntaxKind.Constructor);
         if (ctors.length) {
           let firstCtor: ts.ConstructorDeclaration = <ts.ConstructorDeclaration>ctors[0];
-          const ctorTags = [{tagName: 'constructor'}, {tagName: 'struct'}];
+          const ctorTags: jsdoc.Tag[] = [{tagName: 'constructor'}, {tagName: 'struct'}];
+          this.maybeAddTemplateClause(ctorTags, decl);
+          this.maybeAddIndexSignatureClause(ctorTags, decl);
           if (ctors.length > 1) {
             paramNames = this.emitFunctionType(ctors as ts.ConstructorDeclaration[], ctorTags);
           } else {
             paramNames = this.emitFunctionType([firstCtor], ctorTags);
           }
         } else {
-          this.emit('\n/** @constructor @struct */\n');
+          this.emitExternsTypeTags(decl, 'constructor');
         }
       } else {
-        this.emit('\n/** @record @struct */\n');
+        this.emitExternsTypeTags(decl, 'record');
       }
-      this.writeExternsFunction(name.getText(), paramNames, namespace);
+      this.writeExternsFunction(declName, paramNames, namespace);
     }
 
     // Process everything except (MethodSignature|MethodDeclaration|Constructor)
     let methods: Map<string, ts.MethodDeclaration[]> = new Map();
+    let emittedAccessors = new Set<string>();
     for (let member of decl.members) {
       switch (member.kind) {
         case ts.SyntaxKind.PropertySignature:
         case ts.SyntaxKind.PropertyDeclaration:
           let prop = <ts.PropertySignature>member;
           if (prop.name.kind === ts.SyntaxKind.Identifier) {
-            this.emitJSDocType(prop);
+            if (this.isClosureDeclared([typeName, 'prototype', prop.name.getText()])) continue;
+            this.emit(' ');
+            this.emitExternsJSDoc(prop, [{tagName: 'type', type: this.typeToClosure(prop)}]);
             this.emit(`\n${typeName}.prototype.${prop.name.getText()};\n`);
             continue;
           }
           // TODO: For now property names other than Identifiers are not handled; e.g.
           //    interface Foo { "123bar": number }
           break;
+        case ts.SyntaxKind.GetAccessor:
+        case ts.SyntaxKind.SetAccessor:
+          const accessor = member as ts.AccessorDeclaration;
+          if (accessor.name.kind === ts.SyntaxKind.Identifier) {
+            // Static accessors are declared on the constructor, others on its prototype.
+            const accessorNamespace = hasModifierFlag(accessor, ts.ModifierFlags.Static) ?
+                [typeName] :
+                [typeName, 'prototype'];
+            const accessorName = accessorNamespace.concat([accessor.name.getText()]);
+            // A getter/setter pair declares a single property.
+            if (!emittedAccessors.has(accessorName.join('.')) &&
+                !this.isClosureDeclared(accessorName)) {
+              emittedAccessors.add(accessorName.join('.'));
+              const type = this.typeToClosure(accessor, this.getAccessorPropertyType(accessor));
+              this.emit(' ');
+              this.emitExternsJSDoc(accessor, [{tagName: 'type', type}]);
+              this.emit(`\n${accessorName.join('.')};\n`);
+            }
+            continue;
+          }
+          break;
         case ts.SyntaxKind.MethodSignature:
         case ts.SyntaxKind.MethodDeclaration:
           const method = member as ts.MethodDeclaration;
@@ -1335,6 +2317,11 @@ class ExternsWriter extends ClosureRewriter {
           continue;
         case ts.SyntaxKind.Constructor:
           continue;  // Handled above.
+        case ts.SyntaxKind.IndexSignature:
+          continue;  // Handled by maybeAddIndexSignatureClause.
+        case ts.SyntaxKind.CallSignature:
+        case ts.SyntaxKind.ConstructSignature:
+          continue;  // Declared on the variables of this type, see writeExternsVariableDecl.
         default:
           // Members can include things like index signatures, for e.g.
           //   interface Foo { [key: string]: number; }
@@ -1350,9 +2337,10 @@ class ExternsWriter extends ClosureRewriter {
     }
 
     // Handle method declarations/signatures separately, since we need to deal with overloads.
-    namespace = namespace.concat([name.getText(), 'prototype']);
+    namespace = namespace.concat([declName, 'prototype']);
     for (const methodVariants of Array.from(methods.values())) {
       let firstMethodVariant = methodVariants[0];
+      if (this.isClosureDeclared(namespace.concat([firstMethodVariant.name.getText()]))) continue;
       let parameterNames: string[];
       if (methodVariants.length > 1) {
         parameterNames = this.emitFunctionType(methodVariants);
@@ -1363,18 +2351,77 @@ class ExternsWriter extends ClosureRewriter {
     }
   }
 
+  /** Emits the "@constructor @struct" or "@record @struct" JSDoc for an externs type. */
+  private emitExternsTypeTags(
+      decl: ts.InterfaceDeclaration|ts.ClassDeclaration, kind: 'constructor'|'record') {
+    const tags: jsdoc.Tag[] = [{tagName: kind}, {tagName: 'struct'}];
+    this.maybeAddTemplateClause(tags, decl);
+    if (decl.kind === ts.SyntaxKind.InterfaceDeclaration) {
+      this.maybeAddHeritageClauses(tags, decl as ts.InterfaceDeclaration);
+    }
+    this.maybeAddIndexSignatureClause(tags, decl);
+    if (tags.length === 2) {
+      this.emit(`\n/** @${kind} @struct */\n`);
+    } else {
+      this.emit('\n' + jsdoc.toString(tags));
+    }
+  }
+
   private writeExternsVariableDecl(decl: ts.VariableDeclaration, namespace: string[]) {
     if (decl.name.kind === ts.SyntaxKind.Identifier) {
       let name = getIdentifierText(decl.name as ts.Identifier);
-      if (closureExternsBlacklist.indexOf(name) >= 0) return;
-      this.emitJSDocType(decl);
-      this.emit('\n');
-      this.writeExternsVariable(name, namespace);
+      if (this.isClosureDeclared(namespace.concat([name]))) return;
+      const type = this.program.getTypeChecker().getTypeAtLocation(decl);
+      const callSigs = type.getCallSignatures();
+      const hasStatics = this.program.getTypeChecker().getPropertiesOfType(type).length > 0;
+      if ((callSigs.length > 1 || callSigs.length === 1 && hasStatics) && !this.options.untyped) {
+        // Declare a callable value with properties or overloads, e.g. jQuery's "$", as a function
+        // so its overloads can be merged and its properties declared on it.
+        const params = this.emitFunctionType(callSigs.map(sig => sig.declaration));
+        this.writeExternsFunction(name, params, namespace);
+      } else {
+        // The documentation of "declare var x;" is on the statement.
+        const declList = decl.parent as ts.VariableDeclarationList;
+        const docNode = declList.declarations[0] === decl ? declList.parent! : decl;
+        this.emit(' ');
+        this.emitExternsJSDoc(docNode, [{tagName: 'type', type: this.typeToClosure(decl)}]);
+        this.emit('\n');
+        this.writeExternsVariable(name, namespace);
+      }
+      if (hasStatics && (callSigs.length > 0 || type.getConstructSignatures().length > 0)) {
+        this.writeExternsStatics(type, namespace.concat([name]));
+      }
     } else {
       this.errorUnimplementedKind(decl.name, 'externs for variable');
     }
   }
 
+  /**
+   * Declares the properties of a callable or constructable type, e.g. the "ajax" in
+   *   interface JQueryStatic { (selector: string): JQuery; ajax(url: string): void; }
+   * on the value of that type.
+   */
+  private writeExternsStatics(type: ts.Type, namespace: string[]) {
+    // Classes declare their statics themselves.
+    if (type.symbol && type.symbol.flags & ts.SymbolFlags.Class) return;
+    const typeChecker = this.program.getTypeChecker();
+    for (const prop of typeChecker.getPropertiesOfType(type)) {
+      if (!typeTranslator.isValidClosurePropertyName(prop.name) || !prop.declarations) continue;
+      const decl = prop.declarations[0];
+      if (prop.flags & ts.SymbolFlags.Method) {
+        const params = this.emitFunctionType(prop.declarations as ts.SignatureDeclaration[]);
+        this.writeExternsFunction(prop.name, params, namespace);
+      } else {
+        const propType =
+            this.typeToClosure(decl, typeChecker.getTypeOfSymbolAtLocation(prop, decl));
+        this.emit(' ');
+        this.emitExternsJSDoc(decl, [{tagName: 'type', type: propType}]);
+        this.emit('\n');
+        this.writeExternsVariable(prop.name, namespace);
+      }
+    }
+  }
+
   private writeExternsVariable(name: string, namespace: string[], value?: string) {
     let qualifiedName = namespace.concat([name]).join('.');
     if (namespace.length === 0) this.emit(`var `);
@@ -1395,7 +2442,10 @@ class ExternsWriter extends ClosureRewriter {
 
   private writeExternsEnum(decl: ts.EnumDeclaration, namespace: string[]) {
     const name = getIdentifierText(decl.name);
-    this.emit('\n/** @const */\n');
+    if (this.isClosureDeclared(namespace.concat([name]))) return;
+    this.emit('\n');
+    this.emitExternsJSDoc(decl, [{tagName: 'const'}]);
+    this.emit('\n');
     this.writeExternsVariable(name, namespace, '{}');
     namespace = namespace.concat([name]);
     for (let member of decl.members) {
@@ -1406,22 +2456,28 @@ class ExternsWriter extends ClosureRewriter {
           break;
         case ts.SyntaxKind.StringLiteral:
           let text = (member.name as ts.StringLiteral).text;
-          if (isValidClosurePropertyName(text)) memberName = text;
+          if (typeTranslator.isValidClosurePropertyName(text)) memberName = text;
           break;
         default:
           break;
       }
       if (!memberName) {
-        this.emit(`\n/* TODO: ${ts.SyntaxKind[member.name.kind]}: ${member.name.getText()} */\n`);
+        this.emit(`\n/* TODO: ${
+                                ts.SyntaxKind[member.name.kind]
+                              }: ${this.escapeForComment(member.name.getText())} */\n`);
         continue;
       }
-      this.emit('/** @const {number} */\n');
+      this.emitExternsJSDoc(member, [{tagName: 'const', type: 'number'}]);
+      this.emit('\n');
       this.writeExternsVariable(memberName, namespace);
     }
   }
 
   private writeExternsTypeAlias(decl: ts.TypeAliasDeclaration, namespace: string[]) {
-    this.emit(`\n/** @typedef {${this.typeToClosure(decl)}} */\n`);
+    if (this.isClosureDeclared(namespace.concat([getIdentifierText(decl.name)]))) return;
+    this.emit('\n');
+    this.emitExternsJSDoc(decl, [{tagName: 'typedef', type: this.typeToClosure(decl)}]);
+    this.emit('\n');
     this.writeExternsVariable(getIdentifierText(decl.name), namespace);
   }
 }
@@ -4,9 +4,11 @@ import * as ts from 'typescript';
 
 import {convertDecorators} from './decorator-annotator';
 import {processES5} from './es5processor';
+import {aggregateExterns} from './externs_aggregator';
 import {ModulesManifest} from './modules_manifest';
 import * as sourceMapUtils from './source_map_utils';
 import {annotate, isDtsFileName} from './tsickle';
+import {IndexSignatureTranslation, TupleTranslation} from './type-translator';
 
 /**
  * Tsickle can perform 2 different precompilation transforms - decorator downleveling
@@ -43,6 +45,58 @@ export interface Options {
    * Annotation will be slower because every import must be resolved.
    */
   convertIndexImportShorthand?: boolean;
+  /**
+   * How to translate tuple types, see TupleTranslation.  By default tuples are translated to
+   * !Array<?>.
+   */
+  tupleTranslation?: TupleTranslation;
+  /**
+   * If true, emit Closure @enum types for TypeScript enums, and for top-level type aliases of
+   * string literal unions such as `type Color = 'red'|'green';` whose values are referenced
+   * through a const of the same name, e.g. `const Color = {Red: 'red' as Color, ...};`.  The
+   * const is required: Closure only accepts the enum's members (e.g. Color.Red) as values of the
+   * enum type, not plain strings, so string literal unions without one are emitted as string
+   * typedefs, with a warning.
+   */
+  closureEnums?: boolean;
+  /**
+   * If true, Closure @enum types emitted for TypeScript enums (see closureEnums) also get the
+   * reverse mapping from values to member names, e.g. Foo[Foo.BAR] = "BAR".  Closure's checks
+   * don't allow keys other than the members on an enum, so this is off by default.
+   */
+  enumReverseMapping?: boolean;
+  /**
+   * How to translate object types with both an index signature and named fields, see
+   * IndexSignatureTranslation.  By default they are translated to ?.
+   */
+  indexSignatureTranslation?: IndexSignatureTranslation;
+  /**
+   * Closure has a single namespace for types and values, so an interface that is also a value,
+   * such as `interface Point {...}` with `const Point = {...}`, is emitted as a Closure type named
+   * with this suffix, e.g. Point$Type.  Defaults to '$Type'.
+   */
+  typeValueConflictSuffix?: string;
+  /**
+   * If true, emit Closure @private and @protected tags for class members and parameter
+   * properties with the corresponding TypeScript modifiers, so that Closure checks their use from
+   * JavaScript code.
+   */
+  emitVisibilityTags?: boolean;
+  /**
+   * Maps the names of ambient modules, such as 'lodash' in `declare module 'lodash' {...}`, to
+   * the global namespace the library exposes at runtime, e.g. {'lodash': '_'}.  Externs for the
+   * module are emitted into that namespace, and imports from the module are dropped in favor of
+   * referencing it.
+   * Ambient modules without an entry use the namespace TsickleHost.pathToModuleName maps the
+   * module name to.
+   */
+  moduleGlobals?: {[moduleName: string]: string};
+  /**
+   * The qualified names, e.g. "google.maps.Map.prototype.setZoom", that Closure externs passed to
+   * the compiler alongside tsickle's output already declare, see readClosureExterns.  tsickle
+   * doesn't declare these again in its externs, and treats the types as provided by Closure.
+   */
+  closureExterns?: Set<string>;
 }
 
 /**
@@ -340,14 +394,14 @@ export class TsickleCompilerHost implements ts.CompilerHost {
     return ts.createSourceFile(fileName, output, languageVersion, true);
   }
 
-  /** Concatenate all generated externs definitions together into a string. */
+  /**
+   * Merges all generated externs definitions into a single string, see aggregateExterns.
+   * Conflicting definitions are reported in diagnostics.
+   */
   getGeneratedExterns(): string {
-    let allExterns = '';
-    for (let fileName of Object.keys(this.externs)) {
-      allExterns += `// externs from ${fileName}:\n`;
-      allExterns += this.externs[fileName];
-    }
-    return allExterns;
+    const {output, diagnostics} = aggregateExterns(this.externs);
+    this.diagnostics.push(...diagnostics);
+    return output;
   }
 
   // Delegate everything else to the original compiler host.
@@ -27,10 +27,185 @@ export function isBuiltinLibDTS(fileName: string): boolean {
  *     type of the same name, e.g. "Array".  Note that we don't actually enforce
  *     that the types are actually compatible, but mostly just hope that they are due
  *     to being derived from the same HTML specs.
+ * @param closureExterns The qualified names declared by Closure's externs, see
+ *     Options.closureExterns.
  */
-function isClosureProvidedType(symbol: ts.Symbol): boolean {
-  return symbol.declarations != null &&
-      symbol.declarations.some(n => isBuiltinLibDTS(n.getSourceFile().fileName));
+function isClosureProvidedType(symbol: ts.Symbol, closureExterns?: Set<string>): boolean {
+  if (!symbol.declarations) return false;
+  if (symbol.declarations.some(n => isBuiltinLibDTS(n.getSourceFile().fileName))) return true;
+  if (!closureExterns) return false;
+  const name = getGlobalName(symbol);
+  return name !== null && closureExterns.has(name);
+}
+
+/**
+ * @return The qualified name of a symbol declared in the global scope, e.g. "google.maps.Map",
+ *     or null if it is declared in a module.
+ */
+function getGlobalName(symbol: ts.Symbol): string|null {
+  const decl = symbol.declarations![0];
+  const parts = [symbol.name];
+  for (let node = decl.parent; node; node = node.parent) {
+    if (node.kind === ts.SyntaxKind.ModuleDeclaration) {
+      if (node.flags & ts.NodeFlags.GlobalAugmentation) return parts.join('.');
+      const name = (node as ts.ModuleDeclaration).name;
+      // E.g. declare module 'foo' {...}.
+      if (name.kind !== ts.SyntaxKind.Identifier) return null;
+      parts.unshift((name as ts.Identifier).text);
+    } else if (node.kind === ts.SyntaxKind.SourceFile) {
+      if (ts.isExternalModule(node as ts.SourceFile)) return null;
+    }
+  }
+  return parts.join('.');
+}
+
+/**
+ * @return True if tsickle emits an @template tag for the type parameters of decl.
+ */
+export function isTemplateDeclaration(decl: ts.Node): boolean {
+  switch (decl.kind) {
+    case ts.SyntaxKind.ClassDeclaration:
+    case ts.SyntaxKind.InterfaceDeclaration:
+    case ts.SyntaxKind.FunctionDeclaration:
+    case ts.SyntaxKind.MethodDeclaration:
+    case ts.SyntaxKind.ArrowFunction:
+    case ts.SyntaxKind.FunctionExpression:
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * If sym is a type alias of a union of string literals whose values are referenced through a
+ * const object of the same name, e.g.
+ *   type Color = 'red'|'green';
+ *   const Color = {Red: 'red' as Color, Green: 'green' as Color};
+ * that tsickle can emit as a Closure @enum {string} (see Options.closureEnums), returns the
+ * declaration of the const.  Otherwise returns null, and the alias is emitted as a typedef: as
+ * TypeScript code uses plain strings for its values, Closure would reject them for an @enum.
+ */
+export function getStringEnumDeclaration(
+    typeChecker: ts.TypeChecker, sym: ts.Symbol): ts.VariableDeclaration|null {
+  if (!(sym.flags & ts.SymbolFlags.TypeAlias) ||
+      !(sym.flags & ts.SymbolFlags.BlockScopedVariable)) {
+    return null;
+  }
+  const decl = sym.valueDeclaration;
+  if (!decl || decl.kind !== ts.SyntaxKind.VariableDeclaration) return null;
+  const initializer = (decl as ts.VariableDeclaration).initializer;
+  if (!initializer || initializer.kind !== ts.SyntaxKind.ObjectLiteralExpression) return null;
+  // Only top-level consts declared on their own in .ts files get an enum; ambient ones just
+  // produce a typedef in the externs.
+  const declList = decl.parent as ts.VariableDeclarationList;
+  const stmt = declList.parent;
+  if (!(declList.flags & ts.NodeFlags.Const) || declList.declarations.length !== 1 || !stmt ||
+      !stmt.parent || stmt.parent.kind !== ts.SyntaxKind.SourceFile ||
+      decl.getSourceFile().isDeclarationFile ||
+      ts.getCombinedModifierFlags(decl) & ts.ModifierFlags.Ambient) {
+    return null;
+  }
+  if (!isStringLiteralUnion(typeChecker, sym)) return null;
+  return decl as ts.VariableDeclaration;
+}
+
+/** @return True if sym is a type alias of a union of string literals, e.g. 'red'|'green'. */
+export function isStringLiteralUnion(typeChecker: ts.TypeChecker, sym: ts.Symbol): boolean {
+  if (!(sym.flags & ts.SymbolFlags.TypeAlias)) return false;
+  const type = typeChecker.getDeclaredTypeOfSymbol(sym);
+  return !!(type.flags & ts.TypeFlags.Union) &&
+      (type as ts.UnionType).types.every(member => !!(member.flags & ts.TypeFlags.StringLiteral));
+}
+
+/**
+ * @return True if type is the polymorphic "this" type of a class or interface, e.g. in
+ *   class Builder { add(): this { return this; } }
+ */
+export function isThisType(type: ts.Type): boolean {
+  // isThisType is internal to TypeScript.
+  return (type.flags & ts.TypeFlags.TypeParameter) !== 0 &&
+      (type as {isThisType?: boolean}).isThisType === true;
+}
+
+/**
+ * Returns the nullable version of a Closure type, e.g. ?Foo for !Foo or ?string for string.
+ */
+export function nullable(type: string): string {
+  if (type === '?' || type[0] === '?') return type;
+  return '?' + (type[0] === '!' ? type.substring(1) : type);
+}
+
+/**
+ * @return True if sym is a user-defined interface that is also a value, e.g.
+ *   interface Point { x: number; }
+ *   const Point = {origin: {x: 0}};
+ * Closure has a single namespace for types and values, so the interface is emitted under a
+ * distinct name, see TypeTranslator.typeValueConflictSuffix.
+ */
+export function hasTypeValueConflict(sym: ts.Symbol, closureExterns?: Set<string>): boolean {
+  return (sym.flags & ts.SymbolFlags.Interface) !== 0 && (sym.flags & ts.SymbolFlags.Value) !== 0 &&
+      (sym.flags & ts.SymbolFlags.Class) === 0 && !isClosureProvidedType(sym, closureExterns);
+}
+
+/**
+ * @return True if type is a user-defined interface with call or construct signatures, e.g.
+ *   interface JQueryStatic { (selector: string): JQuery; ajax(url: string): void; }
+ * Closure records can't be called, so such types translate to function types instead.
+ */
+function isCallableInterface(type: ts.ObjectType, closureExterns?: Set<string>): boolean {
+  if (!(type.objectFlags & ts.ObjectFlags.Interface) || type.objectFlags & ts.ObjectFlags.Class ||
+      !type.symbol || isClosureProvidedType(type.symbol, closureExterns)) {
+    return false;
+  }
+  return type.getCallSignatures().length > 0 || type.getConstructSignatures().length > 0;
+}
+
+/**
+ * @return True if sym is an enum that tsickle emits as a Closure @enum when Options.closureEnums
+ *     is set, i.e. a non-const enum declared once in a .ts file, whose members all have constant
+ *     values.
+ */
+export function isClosureEnum(typeChecker: ts.TypeChecker, sym: ts.Symbol): boolean {
+  // Merged enum declarations would each need to declare the @enum object.
+  if (!(sym.flags & ts.SymbolFlags.RegularEnum) || !sym.declarations ||
+      sym.declarations.length !== 1) {
+    return false;
+  }
+  return sym.declarations.every(decl => {
+    if (decl.kind !== ts.SyntaxKind.EnumDeclaration || decl.getSourceFile().isDeclarationFile ||
+        ts.getCombinedModifierFlags(decl) & ts.ModifierFlags.Ambient) {
+      return false;
+    }
+    return (decl as ts.EnumDeclaration)
+        .members.every(m => !m.initializer || typeChecker.getConstantValue(m) !== undefined);
+  });
+}
+
+/** @return True if node is ancestor or the same node as descendant. */
+function isAncestorOf(ancestor: ts.Node, descendant: ts.Node): boolean {
+  for (let node: ts.Node|undefined = descendant; node; node = node.parent) {
+    if (node === ancestor) return true;
+  }
+  return false;
+}
+
+/**
+ * TypeScript allows you to write identifiers quoted, like:
+ *   interface Foo {
+ *     'bar': string;
+ *     'complex name': string;
+ *   }
+ *   Foo.bar;  // ok
+ *   Foo['bar']  // ok
+ *   Foo['complex name']  // ok
+ *
+ * In Closure-land, we want identify that the legal name 'bar' can become an
+ * ordinary field, but we need to skip strings like 'complex name'.
+ */
+export function isValidClosurePropertyName(name: string): boolean {
+  // In local experimentation, it appears that reserved words like 'var' and
+  // 'if' are legal JS and still accepted by Closure.
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name);
 }
 
 export function typeToDebugString(type: ts.Type): string {
@@ -128,6 +303,28 @@ export function symbolToDebugString(sym: ts.Symbol): string {
   return debugString;
 }
 
+/**
+ * How TypeScript tuple types like [string, number] are translated to Closure:
+ * - 'unknown' translates all tuples to !Array<?>.
+ * - 'union' translates to an array of the union of the element types, e.g.
+ *   !Array<(string|number)>, or !Array<string> for [string, string].
+ * - 'arrayLike' is like 'union', but uses the IArrayLike record type instead of Array,
+ *   e.g. !IArrayLike<(string|number)>.
+ */
+export type TupleTranslation = 'unknown' | 'union' | 'arrayLike';
+
+/**
+ * How object types that have both an index signature and named fields, like
+ * {[key: string]: number, length: number}, are translated to Closure:
+ * - 'unknown' translates them to ?.
+ * - 'object' translates to an Object map whose value type is the union of the index signature's
+ *   and the fields' types, e.g. !Object<string,number>.  Accesses by key are checked, named
+ *   fields only loosely.
+ * - 'record' translates to a record type of the named fields, e.g. {length: number}.  Named
+ *   fields are checked, accesses by key are not.
+ */
+export type IndexSignatureTranslation = 'unknown' | 'object' | 'record';
+
 /** TypeTranslator translates TypeScript types to Closure types. */
 export class TypeTranslator {
   /**
@@ -136,6 +333,39 @@ export class TypeTranslator {
    */
   private seenTypes: ts.Type[] = [];
 
+  /** How to translate tuple types; the caller will overwrite this to change the default. */
+  tupleTranslation: TupleTranslation = 'unknown';
+
+  /**
+   * If true, type aliases of string literal unions are translated to the name of the Closure
+   * @enum emitted for them, see getStringEnumDeclaration.
+   */
+  closureEnums = false;
+
+  /**
+   * How to translate object types with both index signatures and named fields; the caller will
+   * overwrite this to change the default.
+   */
+  indexSignatureTranslation: IndexSignatureTranslation = 'unknown';
+
+  /**
+   * The suffix appended to the names of interfaces that are also values, see
+   * hasTypeValueConflict; the caller will overwrite this to change the default.
+   */
+  typeValueConflictSuffix = '$Type';
+
+  /**
+   * The qualified names declared by Closure's externs, see Options.closureExterns.  Types
+   * declared there are known to Closure and need no special naming.
+   */
+  closureExterns?: Set<string>;
+
+  /**
+   * Whether the program is compiled with strictNullChecks, which determines whether types are
+   * nullable by default; the caller will overwrite this to change the default.
+   */
+  strictNullChecks = true;
+
   /**
    * @param node is the source AST ts.Node the type comes from.  This is used
    *     in some cases (e.g. anonymous types) for looking up field names.
@@ -190,6 +420,24 @@ export class TypeTranslator {
     return str;
   }
 
+  /**
+   * Marks a named Closure type as non-nullable.  Under strictNullChecks, TypeScript spells out
+   * nullability in unions with null, so types are non-nullable otherwise.  Without it, all object
+   * types are nullable in TypeScript, which is also the default for named types in Closure.
+   */
+  private nonNullable(typeName: string): string {
+    return this.strictNullChecks ? '!' + typeName : typeName;
+  }
+
+  /**
+   * Marks a record or function type as nullable without strictNullChecks, when all object types
+   * are nullable in TypeScript (see nonNullable).  Closure's defaults for these differ from those
+   * for named types, so they are marked explicitly.
+   */
+  private nullableIfNotStrict(type: string): string {
+    return this.strictNullChecks ? type : nullable(type);
+  }
+
   translate(type: ts.Type): string {
     // NOTE: Though type.flags has the name "flags", it usually can only be one
     // of the enum options at a time.  This switch handles all the cases in
@@ -215,7 +463,7 @@ export class TypeTranslator {
         return 'boolean';
       case ts.TypeFlags.Enum:
       case ts.TypeFlags.EnumLiteral:
-        return 'number';
+        return this.translateEnum(type);
       case ts.TypeFlags.ESSymbol:
         // NOTE: currently this is just a typedef for {?}, shrug.
         // https://github.com/google/closure-compiler/blob/55cf43ee31e80d89d7087af65b5542aa63987874/externs/es3.js#L34
@@ -231,18 +479,20 @@ export class TypeTranslator {
         return '?';
       case ts.TypeFlags.TypeParameter:
         // This is e.g. the T in a type like Foo<T>.
-        this.warn(`unhandled type flags: ${ts.TypeFlags[type.flags]}`);
-        return '?';
+        return this.translateTypeParameter(type as ts.TypeParameter);
       case ts.TypeFlags.Object:
         return this.translateObject(type as ts.ObjectType);
       case ts.TypeFlags.Union:
         return this.translateUnion(type as ts.UnionType);
       case ts.TypeFlags.Intersection:
+        return this.translateIntersection(type as ts.IntersectionType);
       case ts.TypeFlags.Index:
+        // This is e.g. "keyof T", a union of the (string) property names of T.  Closure can't
+        // express the individual literals, so collapse it to string.
+        return 'string';
       case ts.TypeFlags.IndexedAccess:
-        // TODO(ts2.1): handle these special types.
-        this.warn(`unhandled type flags: ${ts.TypeFlags[type.flags]}`);
-        return '?';
+        // This is e.g. "T[K]", the type of the property K of T.
+        return this.translateIndexedAccess(type as ts.IndexedAccessType);
       default:
         // Handle cases where multiple flags are set.
 
@@ -252,6 +502,11 @@ export class TypeTranslator {
         // Note also that in a more complex union, e.g. boolean|number, then
         // it's a union of three things (true|false|number) and
         // ts.TypeFlags.Boolean doesn't show up at all.
+        // Similarly, enums whose members are all literals are represented as
+        //   ts.TypeFlags.Union | ts.TypeFlags.Enum
+        if (type.flags & ts.TypeFlags.Enum) {
+          return this.translateEnum(type);
+        }
         if (type.flags & ts.TypeFlags.Union) {
           return this.translateUnion(type as ts.UnionType);
         }
@@ -261,16 +516,106 @@ export class TypeTranslator {
     }
   }
 
+  /**
+   * translateEnum translates an enum type, or the type of one of its members, to the name of the
+   * Closure @enum emitted for it (see isClosureEnum), or to number otherwise.
+   */
+  private translateEnum(type: ts.Type): string {
+    const enumType =
+        type.flags & ts.TypeFlags.EnumLiteral ? (type as ts.EnumLiteralType).baseType : type;
+    const sym = enumType.symbol;
+    if (this.closureEnums && sym && !this.isBlackListed(sym) &&
+        isClosureEnum(this.typeChecker, sym)) {
+      return this.nonNullable(this.symbolToString(sym));
+    }
+    return 'number';
+  }
+
   private translateUnion(type: ts.UnionType): string {
+    const alias = type.aliasSymbol;
+    if (this.closureEnums && alias && !this.isBlackListed(alias) &&
+        getStringEnumDeclaration(this.typeChecker, alias)) {
+      return this.symbolToString(alias);
+    }
     let parts = type.types.map(t => this.translate(t));
     // Union types that include boolean literals and other literals can
     // end up repeating the same Closure type. For example: true | boolean
     // will be translated to boolean | boolean. Remove duplicates to produce
     // types that read better.
     parts = parts.filter((el, idx) => parts.indexOf(el) === idx);
+    // Use Closure's nullable shorthand for a union with null, e.g. ?Foo for Foo|null.
+    if (parts.length === 2 && parts.indexOf('null') !== -1) {
+      return nullable(parts[1 - parts.indexOf('null')]);
+    }
     return parts.length === 1 ? parts[0] : `(${parts.join('|')})`;
   }
 
+  /**
+   * translateIntersection translates an intersection type like A & B.  Closure has no
+   * intersection types, so if one of the parts is a class, emit that class, as values of the
+   * intersection are usually instances of it that a structural record type would not match.  If
+   * all the parts are plain object types, emit a record type with the properties of all of them,
+   * e.g. {a: number, b: string}.  Otherwise fall back to the first interface in the intersection.
+   */
+  private translateIntersection(type: ts.IntersectionType): string {
+    if (this.seenTypes.indexOf(type) !== -1) return '?';
+    for (const t of type.types) {
+      if (t.flags & ts.TypeFlags.Object &&
+          (t as ts.ObjectType).objectFlags & ts.ObjectFlags.Class) {
+        return this.translate(t);
+      }
+    }
+    if (type.types.every(t => this.isRecordLike(t))) {
+      const props = this.typeChecker.getPropertiesOfType(type);
+      if (props.length > 0 && props.every(p => isValidClosurePropertyName(p.name))) {
+        this.seenTypes.push(type);
+        const fields = props.map(p => {
+          const propType = this.typeChecker.getTypeOfSymbolAtLocation(p, this.node);
+          return `${p.name}: ${this.translate(propType)}`;
+        });
+        this.seenTypes.pop();
+        return `{${fields.join(', ')}}`;
+      }
+    }
+    for (const t of type.types) {
+      if (t.flags & ts.TypeFlags.Object &&
+          (t as ts.ObjectType).objectFlags & ts.ObjectFlags.Interface) {
+        return this.translate(t);
+      }
+    }
+    this.warn(`unhandled intersection type ${typeToDebugString(type)}`);
+    return '?';
+  }
+
+  /**
+   * @return True if type is an object type whose shape can be written as a Closure record type,
+   *     i.e. it has no call, construct or index signatures.
+   */
+  private isRecordLike(type: ts.Type): boolean {
+    if (!(type.flags & ts.TypeFlags.Object)) return false;
+    if (type.symbol && this.isBlackListed(type.symbol)) return false;
+    return type.getCallSignatures().length === 0 && type.getConstructSignatures().length === 0 &&
+        !type.getStringIndexType() && !type.getNumberIndexType();
+  }
+
+  /**
+   * translateIndexedAccess translates an indexed access type like T[K].  TypeScript only leaves
+   * these unresolved when T or K is generic, in which case the best available type is the
+   * constraint of the access, e.g. the string index type of T's constraint.
+   */
+  private translateIndexedAccess(type: ts.IndexedAccessType): string {
+    if (type.constraint && type.constraint !== type) return this.translate(type.constraint);
+    let objectType = type.objectType;
+    if (objectType.flags & ts.TypeFlags.TypeParameter) {
+      const constraint = (objectType as ts.TypeParameter).constraint;
+      if (constraint) objectType = constraint;
+    }
+    const valueType = objectType.getStringIndexType() || objectType.getNumberIndexType();
+    if (valueType) return this.translate(valueType);
+    this.warn(`unhandled indexed access type ${typeToDebugString(type)}`);
+    return '?';
+  }
+
   // translateObject translates a ts.ObjectType, which is the type of all
   // object-like things in TS, such as classes and interfaces.
   private translateObject(type: ts.ObjectType): string {
@@ -284,7 +629,7 @@ export class TypeTranslator {
         this.warn('class has no symbol');
         return '?';
       }
-      return '!' + this.symbolToString(type.symbol);
+      return this.nonNullable(this.symbolToString(type.symbol));
     } else if (type.objectFlags & ts.ObjectFlags.Interface) {
       // Note: ts.InterfaceType has a typeParameters field, but that
       // specifies the parameters that the interface type *expects*
@@ -297,26 +642,26 @@ export class TypeTranslator {
         this.warn('interface has no symbol');
         return '?';
       }
-      if (type.symbol.flags & ts.SymbolFlags.Value) {
-        // The symbol is both a type and a value.
-        // For user-defined types in this state, we don't have a Closure name
-        // for the type.  See the type_and_value test.
-        if (!isClosureProvidedType(type.symbol)) {
-          this.warn(`type/symbol conflict for ${type.symbol.name}, using {?} for now`);
-          return '?';
-        }
+      if (isCallableInterface(type, this.closureExterns)) return this.translateTypeLiteral(type);
+      if (hasTypeValueConflict(type.symbol, this.closureExterns)) {
+        // The symbol is both a type and a value.  Closure has a single namespace for both, so
+        // tsickle emits user-defined types in this state under a distinct name.  See the
+        // type_and_value test.
+        return this.nonNullable(this.symbolToString(type.symbol) + this.typeValueConflictSuffix);
       }
-      return '!' + this.symbolToString(type.symbol);
+      return this.nonNullable(this.symbolToString(type.symbol));
     } else if (type.objectFlags & ts.ObjectFlags.Reference) {
       // A reference to another type, e.g. Array<number> refers to Array.
       // Emit the referenced type and any type arguments.
       let referenceType = type as ts.TypeReference;
 
       // A tuple is a ReferenceType where the target is flagged Tuple and the
-      // typeArguments are the tuple arguments.  Just treat it as a mystery
-      // array, because Closure doesn't understand tuples.
+      // typeArguments are the tuple arguments.
       if (referenceType.target.objectFlags & ts.ObjectFlags.Tuple) {
-        return '!Array<?>';
+        return this.translateTuple(referenceType);
+      }
+      if (isCallableInterface(referenceType.target, this.closureExterns)) {
+        return this.translateTypeLiteral(type);
       }
 
       let typeStr = '';
@@ -344,33 +689,61 @@ export class TypeTranslator {
         return '?';
       }
 
-      if (type.symbol.flags === ts.SymbolFlags.TypeLiteral) {
+      if (type.symbol.flags === ts.SymbolFlags.TypeLiteral ||
+          type.symbol.flags === ts.SymbolFlags.ObjectLiteral) {
+        // Either an explicit type literal, or the inferred type of an object literal.
         return this.translateTypeLiteral(type);
       } else if (
           type.symbol.flags === ts.SymbolFlags.Function ||
           type.symbol.flags === ts.SymbolFlags.Method) {
         let sigs = this.typeChecker.getSignaturesOfType(type, ts.SignatureKind.Call);
         if (sigs.length === 1) {
-          return this.signatureToClosure(sigs[0]);
+          return this.nullableIfNotStrict(this.signatureToClosure(sigs[0]));
         }
       }
       this.warn('unhandled anonymous type');
       return '?';
+    } else if (type.objectFlags & ts.ObjectFlags.Mapped) {
+      // A mapped type, e.g. Partial<Foo> or Record<'a'|'b', number>.  If the type it maps over
+      // is generic its members are unknown, so avoid emitting the empty !Object for it.
+      if (this.typeChecker.getPropertiesOfType(type).length === 0 && !type.getStringIndexType() &&
+          !type.getNumberIndexType()) {
+        this.warn(`unhandled mapped type ${typeToDebugString(type)}`);
+        return '?';
+      }
+      return this.translateTypeLiteral(type);
+    } else if (type.objectFlags & ts.ObjectFlags.EvolvingArray) {
+      // The type of e.g. "let x = [];" while its element type is still being inferred.
+      const evolvingArray = type as ts.EvolvingArrayType;
+      if (evolvingArray.finalArrayType) return this.translate(evolvingArray.finalArrayType);
+      return this.nonNullable(`Array<${this.translate(evolvingArray.elementType)}>`);
     }
 
     /*
     TODO(ts2.1): more unhandled object type flags:
-      Tuple
-      Mapped
-      Instantiated
-      ObjectLiteral
-      EvolvingArray
       ObjectLiteralPatternWithComputedProperties
     */
     this.warn(`unhandled type ${typeToDebugString(type)}`);
     return '?';
   }
 
+  /**
+   * translateTuple translates a tuple type like [string, number].  Closure doesn't understand
+   * tuples, so depending on tupleTranslation this is either a mystery array or an array of the
+   * union of the element types.
+   */
+  private translateTuple(type: ts.TypeReference): string {
+    if (this.tupleTranslation === 'unknown' || !type.typeArguments) {
+      return this.nonNullable('Array<?>');
+    }
+    let parts = type.typeArguments.map(t => this.translate(t));
+    // Remove duplicates, so that homogeneous tuples like [number, number] become !Array<number>.
+    parts = parts.filter((el, idx) => parts.indexOf(el) === idx);
+    const elementType = parts.length === 1 ? parts[0] : `(${parts.join('|')})`;
+    const arrayType = this.tupleTranslation === 'arrayLike' ? 'IArrayLike' : 'Array';
+    return this.nonNullable(`${arrayType}<${elementType}>`);
+  }
+
   /**
    * translateTypeLiteral translates a ts.SymbolFlags.TypeLiteral type, which
    * is the anonymous type encountered in e.g.
@@ -383,21 +756,22 @@ export class TypeTranslator {
     // to do with aliases?).
     if (this.seenTypes.indexOf(type) !== -1) return '?';
     this.seenTypes.push(type);
+    const result = this.translateTypeLiteralMembers(type);
+    this.seenTypes.pop();
+    return result;
+  }
 
-    // Gather up all the named fields and whether the object is also callable.
-    let callable = false;
-    let indexable = false;
-    let fields: string[] = [];
-    if (!type.symbol || !type.symbol.members) {
-      this.warn('type literal has no symbol');
-      return '?';
-    }
-
+  /**
+   * translateTypeLiteralMembers translates an object type based on its members, as seen
+   * through the type checker.  This means that the members of instantiated generic types
+   * (e.g. {a: T} with T=number) and mapped types (e.g. Partial<Foo>) have their actual types.
+   */
+  private translateTypeLiteralMembers(type: ts.Type): string {
     // special-case construct signatures.
     const ctors = type.getConstructSignatures();
     if (ctors.length) {
-      // TODO(martinprobst): this does not support additional properties defined on constructors
-      // (not expressible in Closure), nor multiple constructors (same).
+      // Additional properties defined on constructors are not expressible in Closure types (the
+      // externs declare them on the constructor value), nor are multiple constructors.
       const params = this.convertParams(ctors[0]);
       const paramsStr = params.length ? (', ' + params.join(', ')) : '';
       const constructedType = this.translate(ctors[0].getReturnType());
@@ -409,35 +783,38 @@ export class TypeTranslator {
       // It appears from testing that Closure ignores the ! anyway and just
       // assumes the result will be non-null in either case.  (To be pedantic,
       // it's possible to return null from a ctor it seems like a bad idea.)
-      return `function(new: (${constructedType})${paramsStr}): ?`;
+      return this.nullableIfNotStrict(`function(new: (${constructedType})${paramsStr}): ?`);
+    }
+
+    // Special-case functions, then gather up all the named fields.
+    const callable = type.getCallSignatures().length > 0;
+    const indexable = !!(type.getStringIndexType() || type.getNumberIndexType());
+    if (callable && !indexable) {
+      // A function type.  Closure can't express additional fields on a function type (e.g. for
+      // jQuery's "$"), so they are dropped here; the externs declare them on the function value.
+      let sigs = this.typeChecker.getSignaturesOfType(type, ts.SignatureKind.Call);
+      if (sigs.length === 1) {
+        return this.nullableIfNotStrict(this.signatureToClosure(sigs[0]));
+      }
     }
 
-    for (let field of Object.keys(type.symbol.members)) {
-      switch (field) {
-        case '__call':
-          callable = true;
-          break;
-        case '__index':
-          indexable = true;
-          break;
-        default:
-          let member = type.symbol.members[field];
-          // optional members are handled by the type including |undefined in a union type.
-          let memberType =
-              this.translate(this.typeChecker.getTypeOfSymbolAtLocation(member, this.node));
-          fields.push(`${field}: ${memberType}`);
+    let fields: string[] = [];
+    let fieldTypes: ts.Type[] = [];
+    for (let member of this.typeChecker.getPropertiesOfType(type)) {
+      if (!isValidClosurePropertyName(member.name)) {
+        // Closure record types can only have identifier keys.
+        this.warn(`omitting inexpressible property name: ${member.name}`);
+        continue;
       }
+      // optional members are handled by the type including |undefined in a union type.
+      let fieldType = this.typeChecker.getTypeOfSymbolAtLocation(member, this.node);
+      fields.push(`${member.name}: ${this.translate(fieldType)}`);
+      fieldTypes.push(fieldType);
     }
 
-    // Try to special-case plain key-value objects and functions.
+    // Try to special-case plain key-value objects.
     if (fields.length === 0) {
-      if (callable && !indexable) {
-        // A function type.
-        let sigs = this.typeChecker.getSignaturesOfType(type, ts.SignatureKind.Call);
-        if (sigs.length === 1) {
-          return this.signatureToClosure(sigs[0]);
-        }
-      } else if (indexable && !callable) {
+      if (indexable && !callable) {
         // A plain key-value map type.
         let keyType = 'string';
         let valType = this.typeChecker.getIndexTypeOfType(type, ts.IndexKind.String);
@@ -447,25 +824,71 @@ export class TypeTranslator {
         }
         if (!valType) {
           this.warn('unknown index key type');
-          return `!Object<?,?>`;
+          return this.nonNullable('Object<?,?>');
         }
-        return `!Object<${keyType},${this.translate(valType)}>`;
+        return this.nonNullable(`Object<${keyType},${this.translate(valType)}>`);
       } else if (!callable && !indexable) {
         // Special-case the empty object {} because Closure doesn't like it.
         // TODO(evanm): revisit this if it is a problem.
-        return '!Object';
+        return this.nonNullable('Object');
       }
     }
 
     if (!callable && !indexable) {
       // Not callable, not indexable; implies a plain object with fields in it.
-      return `{${fields.join(', ')}}`;
+      return this.nullableIfNotStrict(`{${fields.join(', ')}}`);
+    }
+
+    if (!callable && this.indexSignatureTranslation === 'record') {
+      return this.nullableIfNotStrict(`{${fields.join(', ')}}`);
+    }
+    if (!callable && this.indexSignatureTranslation === 'object') {
+      // Closure can't express the named fields of a map, so widen its value type to cover them.
+      let keyType = 'string';
+      let indexType = type.getStringIndexType();
+      if (!indexType) {
+        keyType = 'number';
+        indexType = type.getNumberIndexType()!;
+      }
+      const valueTypes: string[] = [];
+      for (const valueType of [indexType].concat(fieldTypes)) {
+        const members =
+            valueType.flags & ts.TypeFlags.Union ? (valueType as ts.UnionType).types : [valueType];
+        for (const member of members) {
+          const translated = this.translate(member);
+          if (valueTypes.indexOf(translated) === -1) valueTypes.push(translated);
+        }
+      }
+      const valueType = valueTypes.length === 1 ? valueTypes[0] : `(${valueTypes.join('|')})`;
+      return this.nonNullable(`Object<${keyType},${valueType}>`);
     }
 
     this.warn('unhandled type literal');
     return '?';
   }
 
+  /**
+   * translateTypeParameter translates a reference to a type parameter, e.g. the T in
+   *   function foo<T>(x: T) {}
+   * tsickle emits an @template tag for the type parameters of classes, interfaces and
+   * functions, so a reference from within such a declaration can use the parameter's name.
+   * Anywhere else (e.g. in a type alias) Closure doesn't know the name, so emit {?}.
+   */
+  private translateTypeParameter(type: ts.TypeParameter): string {
+    if (isThisType(type)) {
+      // The polymorphic "this" type, e.g. the return type of a fluent method.  Closure has no
+      // equivalent, so use the type of the enclosing class or interface.
+      return this.translate(this.typeChecker.getDeclaredTypeOfSymbol(type.symbol!));
+    }
+    const decl = type.symbol && type.symbol.declarations && type.symbol.declarations[0];
+    const owner = decl && decl.kind === ts.SyntaxKind.TypeParameter ? decl.parent : undefined;
+    if (!owner || !isTemplateDeclaration(owner) || !isAncestorOf(owner, this.node)) {
+      this.warn(`unhandled type flags: ${ts.TypeFlags[type.flags]}`);
+      return '?';
+    }
+    return type.symbol!.name;
+  }
+
   /** Converts a ts.Signature (function signature) to a Closure function type. */
   private signatureToClosure(sig: ts.Signature): string {
     let params = this.convertParams(sig);
@@ -482,6 +905,13 @@ export class TypeTranslator {
   private convertParams(sig: ts.Signature): string[] {
     return sig.parameters.map(param => {
       let paramType = this.typeChecker.getTypeOfSymbolAtLocation(param, this.node);
+      const decl = param.valueDeclaration as ts.ParameterDeclaration | undefined;
+      if (decl && decl.dotDotDotToken) {
+        // In TypeScript you write "...x: number[]", but in Closure
+        // you don't write the array: "function(...number)".
+        const typeArgs = (paramType as ts.TypeReference).typeArguments;
+        if (typeArgs && typeArgs.length === 1) return '...' + this.translate(typeArgs[0]);
+      }
       return this.translate(paramType);
     });
   }
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import {expect} from 'chai';
+
+import {getClosureExternsNames} from '../src/closure_externs';
+
+describe('getClosureExternsNames', () => {
+  it('gathers declared names', () => {
+    const externs = `
+/**
+ * @constructor
+ * @param {string} message
+ */
+function Error(message) {}
+
+/** @type {string} */
+Error.prototype.message;
+
+/** @const */
+var goog = {}, other = {};
+
+/** @param {string} name */
+goog.require = function(name) {};
+
+/** @type {number} */
+var count = 0;
+
+// Statements that declare nothing are ignored.
+alert('hello');
+goog['quoted'] = 1;
+`;
+    expect(getClosureExternsNames('es3.js', externs)).to.deep.equal([
+      'Error', 'Error.prototype.message', 'goog', 'other', 'goog.require', 'count'
+    ]);
+  });
+});
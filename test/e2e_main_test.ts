@@ -10,6 +10,7 @@ import {assert, expect} from 'chai';
 import * as ts from 'typescript';
 
 import {toClosureJS} from '../src/main';
+import {toArray} from '../src/util';
 
 describe('toClosureJS', () => {
   it('creates externs, adds type comments and rewrites imports', function() {
@@ -28,7 +29,8 @@ describe('toClosureJS', () => {
 
     expect(closure.externs).to.contain(`/** @const */
 var __NS = {};
- /** @type {number} */
+
+/** @type {number} */
 __NS.__ns1;
 `);
 
@@ -40,4 +42,35 @@ __NS.__ns1;
     expect(exportUnderscoreDotJs)
         .to.contain(`goog.module('test_files.underscore.export_underscore')`);
   });
+
+  it('rewrites ES2015 modules', function() {
+    const diagnostics: ts.Diagnostic[] = [];
+
+    const closure = toClosureJS(
+        {module: ts.ModuleKind.ES2015, target: ts.ScriptTarget.ES2015} as ts.CompilerOptions,
+        [
+          'test_files/import_only_types/import_only_types.ts',
+          'test_files/import_only_types/types_only.ts'
+        ],
+        {isTyped: true}, diagnostics);
+
+    if (!closure) {
+      diagnostics.forEach(v => console.log(JSON.stringify(v)));
+      assert.fail();
+      return;
+    }
+
+    // The import of types_only is only used for types, so TypeScript drops it.
+    const importOnlyTypesDotJs =
+        closure.jsFiles.get('test_files/import_only_types/import_only_types.js')!;
+    expect(importOnlyTypesDotJs)
+        .to.contain(`goog.module('test_files.import_only_types.import_only_types')`);
+    expect(importOnlyTypesDotJs).not.to.contain('import ');
+
+    // TypeScript reports the imported file under its absolute path.
+    const typesOnlyPath = toArray(closure.jsFiles.keys()).find(f => /\/types_only\.js$/.test(f))!;
+    const typesOnlyDotJs = closure.jsFiles.get(typesOnlyPath);
+    expect(typesOnlyDotJs).to.contain(`function Foo() { } exports.Foo = Foo;`);
+    expect(typesOnlyDotJs).to.contain(`/** @typedef {number} */\nexports.Bar;`);
+  });
 });
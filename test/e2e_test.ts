@@ -7,9 +7,11 @@
  */
 
 import * as fs from 'fs';
+import * as glob from 'glob';
 import * as closure from 'google-closure-compiler';
+import * as path from 'path';
 
-import {goldenTests} from './test_support';
+import {closureExternsFixturePath, goldenTests} from './test_support';
 
 export function checkClosureCompile(
     jsFiles: string[], externsFiles: string[], done: (err?: Error) => void) {
@@ -44,6 +46,7 @@ describe('golden file tests', () => {
     goldenJs.push('test_files/import_from_goog/closure_Module.js');
     goldenJs.push('test_files/import_from_goog/closure_OtherModule.js');
     let externs = tests.map(t => t.externsPath).filter(fs.existsSync);
+    externs.push(...glob.sync(path.join(closureExternsFixturePath, '**/*.js')));
     checkClosureCompile(goldenJs, externs, done);
   });
 });
@@ -196,4 +196,114 @@ __export(require('./export_star');
             `exports = {}; var module = {id: 'a.js'};` +
             `console.log('hello');`);
   });
+
+  describe('ES2015 modules', () => {
+    const header = `goog.module('a.b'); exports = {}; var module = {id: 'a/b.js'};`;
+    function expectES2015(content: string) {
+      return expectCommonJs('a/b.js', content, false);
+    }
+
+    it('converts imports', () => {
+      expectES2015(`import './side';
+import * as ns from './ns';
+import def from './def';
+import {a, b as c} from './named';
+import def2, {d} from './named';
+import def3, * as ns2 from './ns2';`)
+          .to.equal(
+              header + `var tsickle_module_0_ = goog.require('a.side');
+var ns = goog.require('a.ns');
+var tsickle_module_1_ = goog.require('a.def'); var def = tsickle_module_1_.default;
+var tsickle_module_2_ = goog.require('a.named'); var a = tsickle_module_2_.a; ` +
+              `var c = tsickle_module_2_.b;
+var def2 = tsickle_module_2_.default; var d = tsickle_module_2_.d;
+var ns2 = goog.require('a.ns2'); var def3 = ns2.default;`);
+    });
+
+    it('converts goog: imports', () => {
+      expectES2015(`import Foo from 'goog:use.Foo';
+import Bar, {baz} from 'goog:use.Bar';`)
+          .to.equal(
+              header + `var Foo = goog.require('use.Foo');
+var tsickle_module_0_ = goog.require('use.Bar'); var Bar = tsickle_module_0_; ` +
+              `var baz = tsickle_module_0_.baz;`);
+    });
+
+    it('converts export lists and re-exports', () => {
+      expectES2015(`export {a, b as c};
+export {d as e} from './d';
+export * from './star';
+export {};`)
+          .to.equal(
+              header + `exports.a = a; exports.c = b;
+var tsickle_module_0_ = goog.require('a.d'); exports.e = tsickle_module_0_.d;
+var tsickle_module_1_ = goog.require('a.star'); ` +
+              `Object.keys(tsickle_module_1_).forEach(function(k) { ` +
+              `if (!exports.hasOwnProperty(k)) exports[k] = tsickle_module_1_[k]; });
+`);
+    });
+
+    it('converts exported declarations', () => {
+      expectES2015(`/** @const {number} */
+export const x = 1, {y, z: [w]} = obj;
+export function f() {}
+export class C {}`)
+          .to.equal(header + `/** @const {number} */
+const x = 1, {y, z: [w]} = obj; exports.x = x; exports.y = y; exports.w = w;
+function f() {} exports.f = f;
+class C {} exports.C = C;`);
+    });
+
+    it('keeps exported lets and vars live', () => {
+      expectES2015(`export let counter = 0, /** @type {number} */ other;
+export function inc() { counter++; return {counter}; }
+function shadowed(counter) { return counter; }
+function hoisted() { if (x) { var counter = 1; } return counter; }
+function scoped() { { let counter = 1; } return counter; }
+export {counter as count};
+export default counter + 1;
+export let {destructured} = obj;`)
+          .to.equal(header + `exports.counter = 0; /** @type {number} */ exports.other;
+function inc() { exports.counter++; return {counter: exports.counter}; } exports.inc = inc;
+function shadowed(counter) { return counter; }
+function hoisted() { if (x) { var counter = 1; } return counter; }
+function scoped() { { let counter = 1; } return exports.counter; }
+exports.count = exports.counter;
+exports.default = exports.counter + 1;
+let {destructured} = obj; exports.destructured = destructured;`);
+    });
+
+    it('converts exported enums', () => {
+      expectES2015(`export var E;
+(function (E) {
+    E[E["A"] = 0] = "A";
+})(E || (E = {}));`)
+          .to.equal(header + `exports.E;
+(function (E) {
+    E[E["A"] = 0] = "A";
+})(exports.E || (exports.E = {}));`);
+    });
+
+    it('converts default exports', () => {
+      expectES2015(`export default class C {}
+export default function() {}
+export default async function f() {}
+export default C;
+export default {value: C.value + 1};`)
+          .to.equal(header + `class C {} exports.default = C;
+exports.default = function() {};
+async function f() {} exports.default = f;
+exports.default = C;
+exports.default = {value: C.value + 1};`);
+    });
+
+    it('gathers referenced modules', () => {
+      const {referencedModules} = es5processor.processES5(
+          'a/b', 'a/b', `import './bare';
+import * as foo from 'goog:foo.bar';
+export {baz} from './baz';`,
+          cliSupport.pathToModuleName, false);
+      expect(referencedModules).to.deep.equal(['a.bare', 'foo.bar', 'a.baz']);
+    });
+  });
 });
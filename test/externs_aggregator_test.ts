@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import {expect} from 'chai';
+
+import {aggregateExterns} from '../src/externs_aggregator';
+import {EXTERNS_HEADER, formatDiagnostics} from '../src/tsickle';
+
+describe('aggregateExterns', () => {
+  const a = EXTERNS_HEADER + `/** @const */
+var ns = {};
+
+/** @record @struct */
+ns.Foo = function() {};
+ /** @type {string} */
+ns.Foo.prototype.name;
+`;
+  const b = EXTERNS_HEADER + `// Derived from: declare module "b"
+/** @const */
+var ns = {};
+
+/**
+ * @param {number} x
+ * @return {void}
+ */
+ns.bar = function(x) {};
+
+/* TODO: ExportDeclaration in ns */
+`;
+
+  it('emits each declaration once, in the order of files and declarations', () => {
+    const {output, diagnostics} = aggregateExterns({'b.d.ts': b, 'a.d.ts': a});
+    expect(diagnostics).to.be.empty;
+    expect(output).to.equal(EXTERNS_HEADER + `
+/** @const */
+var ns = {};
+
+/** @record @struct */
+ns.Foo = function() {};
+
+/** @type {string} */
+ns.Foo.prototype.name;
+
+/**
+ * @param {number} x
+ * @return {void}
+ */
+ns.bar = function(x) {};
+
+/* TODO: ExportDeclaration in ns */
+`);
+  });
+
+  it('does not depend on the order of files', () => {
+    expect(aggregateExterns({'a.d.ts': a, 'b.d.ts': b}).output)
+        .to.equal(aggregateExterns({'b.d.ts': b, 'a.d.ts': a}).output);
+  });
+
+  it('keeps declarations after those they refer to', () => {
+    const lib = EXTERNS_HEADER + `/** @const */
+var lib = {};
+
+/** @return {void} */
+lib.foo = function() {};
+
+/** @const */
+lib.default = lib.foo;
+
+/** @const */
+var Lib = lib;
+`;
+    expect(aggregateExterns({'lib.d.ts': lib}).output).to.equal(EXTERNS_HEADER + `
+/** @const */
+var lib = {};
+
+/** @return {void} */
+lib.foo = function() {};
+
+/** @const */
+lib.default = lib.foo;
+
+/** @const */
+var Lib = lib;
+`);
+  });
+
+  it('keeps multi-line declarations whole', () => {
+    const multiLine = EXTERNS_HEADER + `/** @enum {number} */
+var Level = {
+  Debug: 0,
+  Info: 1,
+};
+`;
+    const {output, diagnostics} = aggregateExterns({'a.d.ts': multiLine, 'b.d.ts': multiLine});
+    expect(diagnostics).to.be.empty;
+    expect(output).to.equal(EXTERNS_HEADER + `
+/** @enum {number} */
+var Level = {
+  Debug: 0,
+  Info: 1,
+};
+`);
+  });
+
+  it('reports conflicting declarations', () => {
+    const c = EXTERNS_HEADER + `/** @type {number} */
+ns.Foo.prototype.name;
+`;
+    const {output, diagnostics} = aggregateExterns({'c.d.ts': c, 'a.d.ts': a});
+    expect(output).to.contain('/** @type {string} */\nns.Foo.prototype.name;');
+    expect(formatDiagnostics(diagnostics))
+        .to.equal(
+            'Error at c.d.ts (externs):6:1: ' +
+            'externs for ns.Foo.prototype.name conflict with those from a.d.ts');
+  });
+});
@@ -38,8 +38,9 @@ const {cachedLibPath, cachedLib} = (function() {
 })();
 
 /** Creates a ts.Program from a set of input files. */
-export function createProgram(sources: Map<string, string>): ts.Program {
-  let host = ts.createCompilerHost(compilerOptions);
+export function createProgram(
+    sources: Map<string, string>, tsOptions = compilerOptions): ts.Program {
+  let host = ts.createCompilerHost(tsOptions);
 
   // Fake out host.directoryExists so that it doesn't read through node_modules/@types.
   let realDirectoryExists = host.directoryExists;
@@ -63,7 +64,7 @@ export function createProgram(sources: Map<string, string>): ts.Program {
     throw new Error('unexpected file read of ' + fileName + ' not in ' + toArray(sources.keys()));
   };
 
-  return ts.createProgram(toArray(sources.keys()), compilerOptions, host);
+  return ts.createProgram(toArray(sources.keys()), tsOptions, host);
 }
 
 /** Emits transpiled output with tsickle postprocessing.  Throws an exception on errors. */
@@ -113,6 +114,13 @@ export class GoldenFileTest {
   }
 }
 
+/**
+ * The directory of the Closure externs that the closure_externs golden test passes as
+ * Options.closureExterns, which the e2e test compiles against, too.
+ */
+export const closureExternsFixturePath = path.relative(
+    process.cwd(), path.join(__dirname, '..', '..', 'test_files', 'closure_externs', 'closure'));
+
 export function goldenTests(): GoldenFileTest[] {
   let basePath = path.join(__dirname, '..', '..', 'test_files');
   let testNames = fs.readdirSync(basePath);
@@ -83,6 +83,29 @@ testFn('golden tests', () => {
     if (/\.untyped\b/.test(test.name)) {
       options.untyped = true;
     }
+    if (/^tuple\b/.test(test.name)) {
+      options.tupleTranslation = /\.arraylike\b/.test(test.name) ? 'arrayLike' : 'union';
+    }
+    if (/^closure_enums\b/.test(test.name)) {
+      options.closureEnums = true;
+      options.enumReverseMapping = /\.reverse_mapping\b/.test(test.name);
+    }
+    if (/^index_signature\b/.test(test.name)) {
+      options.indexSignatureTranslation = 'object';
+    }
+    if (/^visibility\b/.test(test.name)) {
+      options.emitVisibilityTags = true;
+    }
+    if (/^closure_externs\b/.test(test.name)) {
+      options.closureExterns = tsickle.readClosureExterns(testSupport.closureExternsFixturePath);
+    }
+    if (/^declare_module\b/.test(test.name)) {
+      options.moduleGlobals = {'lodash': '_'};
+    }
+    let tsOptions = testSupport.compilerOptions;
+    if (/\.nonstrict\b/.test(test.name)) {
+      tsOptions = {...tsOptions, strictNullChecks: false};
+    }
     it(test.name, () => {
       // Read all the inputs into a map, and create a ts.Program from them.
       let tsSources = new Map<string, string>();
@@ -91,7 +114,7 @@ testFn('golden tests', () => {
         let tsSource = fs.readFileSync(tsPath, 'utf-8');
         tsSources.set(tsPath, tsSource);
       }
-      let program = testSupport.createProgram(tsSources);
+      let program = testSupport.createProgram(tsSources, tsOptions);
       {
         let diagnostics = ts.getPreEmitDiagnostics(program);
         if (diagnostics.length) {
@@ -119,7 +142,7 @@ testFn('golden tests', () => {
       }
       if (convertDecoratorsMadeChange) {
         // A file changed; reload the program on the new output.
-        program = testSupport.createProgram(tsSources);
+        program = testSupport.createProgram(tsSources, tsOptions);
       }
 
       // Tsickle-annotate all the sources, comparing against goldens, and gather the
@@ -143,7 +166,7 @@ testFn('golden tests', () => {
               fileExists: ts.sys.fileExists,
               readFile: ts.sys.readFile,
             },
-            testSupport.compilerOptions);
+            tsOptions);
         if (externs) allExterns = externs;
 
         // If there were any diagnostics, convert them into strings for
@@ -168,7 +191,7 @@ testFn('golden tests', () => {
 
       // Run tsickled TypeScript through TypeScript compiler
       // and compare against goldens.
-      program = testSupport.createProgram(tsickleSources);
+      program = testSupport.createProgram(tsickleSources, tsOptions);
       let jsSources = testSupport.emit(program);
       for (let jsPath of Object.keys(jsSources)) {
         compareAgainstGolden(jsSources[jsPath], jsPath);
@@ -176,3 +199,22 @@ testFn('golden tests', () => {
     });
   });
 });
+
+describe('externs', () => {
+  it('declares static accessors on the constructor', () => {
+    // TypeScript reports accessors in ambient contexts as errors, so this can't be a golden test.
+    const sources = new Map([[
+      'accessors.d.ts', `declare class Accessors {
+  static get instance(): Accessors;
+  get name(): string;
+  set name(value: string);
+}`
+    ]]);
+    const program = testSupport.createProgram(sources);
+    const {externs} = tsickle.annotate(
+        program, program.getSourceFile('accessors.d.ts'), (context, importPath) => importPath, {},
+        {fileExists: ts.sys.fileExists, readFile: ts.sys.readFile}, testSupport.compilerOptions);
+    expect(externs).to.contain('/** @type {!Accessors} */\nAccessors.instance;\n');
+    expect(externs).to.contain('/** @type {string} */\nAccessors.prototype.name;\n');
+  });
+});
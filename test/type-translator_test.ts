@@ -22,3 +22,16 @@ describe('isBuiltinLibDTS', () => {
     expect(typeTranslator.isBuiltinLibDTS('lib.a/b.d.tts')).to.equal(false);
   });
 });
+
+describe('nullable', () => {
+  it('makes types nullable', () => {
+    expect(typeTranslator.nullable('!Foo')).to.equal('?Foo');
+    expect(typeTranslator.nullable('string')).to.equal('?string');
+    expect(typeTranslator.nullable('{a: number}')).to.equal('?{a: number}');
+  });
+
+  it('keeps nullable and unknown types', () => {
+    expect(typeTranslator.nullable('?Foo')).to.equal('?Foo');
+    expect(typeTranslator.nullable('?')).to.equal('?');
+  });
+});
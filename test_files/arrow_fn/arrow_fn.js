@@ -1,2 +1,33 @@
-goog.module('test_files.arrow_fn.arrow_fn');var module = module || {id: 'test_files/arrow_fn/arrow_fn.js'};var /** @type {function(number): number} */ fn3 = (a) => 12;
-var /** @type {function(?): ?} */ fn4 = (a) => a + 12;
+goog.module('test_files.arrow_fn.arrow_fn');var module = module || {id: 'test_files/arrow_fn/arrow_fn.js'};var /** @type {function(number): number} */ fn3 = (
+/** @type {function(number): number} */ ((a) => 12));
+var /** @type {function(?): ?} */ fn4 = (
+/** @type {function(?): ?} */ ((a) => a + 12));
+/**
+ * @param {function(number): number} f
+ * @param {number} x
+ * @return {number}
+ */
+function applyTwice(f, x) {
+    return f(f(x));
+}
+// doubles the value
+applyTwice(/** @type {function(number): number} */ (x => x * 2), 1);
+applyTwice(/* inline note */ /** @type {function(number): number} */ (x => x * 3), 1);
+applyTwice(/** @type {function(number): number} */ (function (x) { return x + 1; }), 1);
+applyTwice(/** @type {function(number): number} */ ((x) => {
+    return x - 1;
+}), 1);
+let /** @type {!Array<string>} */ numbers = [1, 2, 3].map(/** @type {function(number): string} */ (n => String(n))).filter(/** @type {function(string): boolean} */ (s => s.length > 0));
+let /** @type {function(?): ?} */ generic = (t) => t;
+/**
+ * @param {number} n
+ * @return {function(number): number}
+ */
+function makeAdder(n) {
+    return (
+    /** @type {function(number): number} */ (x => x + n));
+}
+// Function expressions in parameter initializers are annotated, too.
+let /** @type {function(function(number): number): number} */ withDefault = (
+/** @type {function(function(number): number=): number} */ ((f = (
+    /** @type {function(number): number} */ ((x) => x + 1))) => f(1)));
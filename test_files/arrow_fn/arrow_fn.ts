@@ -1,2 +1,23 @@
 var fn3 = (a: number): number => 12;
 var fn4 = (a) => a + 12;
+
+function applyTwice(f: (x: number) => number, x: number): number {
+  return f(f(x));
+}
+// doubles the value
+applyTwice(x => x * 2, 1);
+applyTwice(/* inline note */ x => x * 3, 1);
+applyTwice(function(x) { return x + 1; }, 1);
+applyTwice((x: number): number => {
+  return x - 1;
+}, 1);
+
+let numbers = [1, 2, 3].map(n => String(n)).filter(s => s.length > 0);
+let generic = <T>(t: T): T => t;
+
+function makeAdder(n: number): (x: number) => number {
+  return x => x + n;
+}
+
+// Function expressions in parameter initializers are annotated, too.
+let withDefault = (f = (x: number) => x + 1) => f(1);
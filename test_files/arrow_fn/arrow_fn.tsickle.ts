@@ -1,2 +1,38 @@
-var /** @type {function(number): number} */ fn3 = (a: number): number => 12;
-var /** @type {function(?): ?} */ fn4 = (a) => a + 12;
+Warning at test_files/arrow_fn/arrow_fn.ts:16:5: unhandled type flags: TypeParameter
+Warning at test_files/arrow_fn/arrow_fn.ts:16:5: unhandled type flags: TypeParameter
+====
+var /** @type {function(number): number} */ fn3 = (
+/** @type {function(number): number} */ ((a: number): number => 12));
+var /** @type {function(?): ?} */ fn4 = (
+/** @type {function(?): ?} */ ((a) => a + 12));
+/**
+ * @param {function(number): number} f
+ * @param {number} x
+ * @return {number}
+ */
+function applyTwice(f: (x: number) => number, x: number): number {
+  return f(f(x));
+}
+// doubles the value
+applyTwice(/** @type {function(number): number} */ (x => x * 2), 1);
+applyTwice(/* inline note */ /** @type {function(number): number} */ (/* inline note */ x => x * 3), 1);
+applyTwice(/** @type {function(number): number} */ (function(x) { return x + 1; }), 1);
+applyTwice(/** @type {function(number): number} */ ((x: number): number => {
+  return x - 1;
+}), 1);
+
+let /** @type {!Array<string>} */ numbers = [1, 2, 3].map(/** @type {function(number): string} */ (n => String(n))).filter(/** @type {function(string): boolean} */ (s => s.length > 0));
+let /** @type {function(?): ?} */ generic = <T>(t: T): T => t;
+/**
+ * @param {number} n
+ * @return {function(number): number}
+ */
+function makeAdder(n: number): (x: number) => number {
+  return (
+/** @type {function(number): number} */ ( x => x + n));
+}
+
+// Function expressions in parameter initializers are annotated, too.
+let /** @type {function(function(number): number): number} */ withDefault = (
+/** @type {function(function(number): number=): number} */ ((f = (
+/** @type {function(number): number} */ ((x: number) => x + 1))) => f(1)));
@@ -0,0 +1,20 @@
+declare interface QueryResult {
+  length: number;
+}
+
+declare interface QueryStatic {
+  (selector: string): QueryResult;
+  (element: Element): QueryResult;
+  version: string;
+  ajax(url: string): void;
+}
+
+declare var $: QueryStatic;
+
+declare interface WidgetConstructor {
+  new (name: string): QueryResult;
+  defaults: {name: string};
+  create(name: string): QueryResult;
+}
+
+declare var Widget: WidgetConstructor;
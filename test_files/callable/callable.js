@@ -0,0 +1,12 @@
+goog.module('test_files.callable.callable');var module = module || {id: 'test_files/callable/callable.js'};/** @record */
+function Formatter() { }
+/** @type {number} */
+Formatter.prototype.precision;
+/**
+ * @record
+ * @template T
+ */
+function Factory() { }
+let /** @type {function(number): string} */ format;
+let /** @type {function(new: (function(number): string), number): ?} */ formatterFactory;
+let /** @type {!QueryResult} */ result = $('body');
@@ -0,0 +1,12 @@
+interface Formatter {
+  (value: number): string;
+  precision: number;
+}
+
+interface Factory<T> {
+  new (value: T): Formatter;
+}
+
+let format: Formatter;
+let formatterFactory: Factory<number>;
+let result: QueryResult = $('body');
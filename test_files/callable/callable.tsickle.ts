@@ -0,0 +1,23 @@
+
+/** @record */
+function Formatter() {}
+/** @type {number} */
+Formatter.prototype.precision;
+interface Formatter {
+  (value: number): string;
+  precision: number;
+}
+/**
+ * @record
+ * @template T
+ */
+function Factory() {}
+
+
+interface Factory<T> {
+  new (value: T): Formatter;
+}
+
+let /** @type {function(number): string} */ format: Formatter;
+let /** @type {function(new: (function(number): string), number): ?} */ formatterFactory: Factory<number>;
+let /** @type {!QueryResult} */ result: QueryResult = $('body');
@@ -0,0 +1,56 @@
+/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+
+/** @record @struct */
+function QueryResult() {}
+ /** @type {number} */
+QueryResult.prototype.length;
+
+/** @record @struct */
+function QueryStatic() {}
+ /** @type {string} */
+QueryStatic.prototype.version;
+
+/**
+ * @param {string} url
+ * @return {void}
+ */
+QueryStatic.prototype.ajax = function(url) {};
+
+/**
+ * @param {string|!Element} selector_or_element
+ * @return {!QueryResult}
+ */
+function $(selector_or_element) {}
+ /** @type {string} */
+$.version;
+
+/**
+ * @param {string} url
+ * @return {void}
+ */
+$.ajax = function(url) {};
+
+/** @record @struct */
+function WidgetConstructor() {}
+ /** @type {{name: string}} */
+WidgetConstructor.prototype.defaults;
+
+/**
+ * @param {string} name
+ * @return {!QueryResult}
+ */
+WidgetConstructor.prototype.create = function(name) {};
+ /** @type {function(new: (!QueryResult), string): ?} */
+var Widget;
+ /** @type {{name: string}} */
+Widget.defaults;
+
+/**
+ * @param {string} name
+ * @return {!QueryResult}
+ */
+Widget.create = function(name) {};
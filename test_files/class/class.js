@@ -56,18 +56,28 @@ let /** @type {!Super} */ superVar;
 superVar = new Implements();
 superVar = new Extends();
 superVar = new ImplementsTypeAlias();
+/** @record */
+function Zone$Type() { }
+/** @type {string} */
+Zone$Type.prototype.zone;
 /**
  * @return {void}
  */
 function Zone() { }
+/**
+ * @implements {Zone$Type}
+ */
 class ZoneImplementsInterface {
 }
 function ZoneImplementsInterface_tsickle_Closure_declarations() {
     /** @type {string} */
     ZoneImplementsInterface.prototype.zone;
 }
-/** @typedef {?} */
+/** @typedef {!Zone$Type} */
 var ZoneAlias;
+/**
+ * @implements {Zone$Type}
+ */
 class ZoneImplementsAlias {
 }
 function ZoneImplementsAlias_tsickle_Closure_declarations() {
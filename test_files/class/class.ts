@@ -35,9 +35,9 @@ superVar = new Extends();
 superVar = new ImplementsTypeAlias();
 
 // Reproduce issue #333: type/value namespace collision.
-// Because Zone is both a type and a value, the interface will be dropped
-// when converting to Closure, so the "implements" should be ignored for
-// both the direct use and the use via a typedef.
+// Because Zone is both a type and a value, the interface is renamed to
+// Zone$Type when converting to Closure, so the "implements" should refer to
+// that for both the direct use and the use via a typedef.
 interface Zone { zone: string; }
 function Zone() {}
 class ZoneImplementsInterface implements Zone {
@@ -1,5 +1,3 @@
-Warning at test_files/class/class.ts:46:1: type/symbol conflict for Zone, using {?} for now
-====
 
 /** @record */
 function Interface() {}
@@ -68,16 +66,24 @@ let /** @type {!Super} */ superVar: Super;
 superVar = new Implements();
 superVar = new Extends();
 superVar = new ImplementsTypeAlias();
+/** @record */
+function Zone$Type() {}
+/** @type {string} */
+Zone$Type.prototype.zone;
+
 
 // Reproduce issue #333: type/value namespace collision.
-// Because Zone is both a type and a value, the interface will be dropped
-// when converting to Closure, so the "implements" should be ignored for
-// both the direct use and the use via a typedef.
+// Because Zone is both a type and a value, the interface is renamed to
+// Zone$Type when converting to Closure, so the "implements" should refer to
+// that for both the direct use and the use via a typedef.
 interface Zone { zone: string; }
 /**
  * @return {void}
  */
 function Zone() {}
+/**
+ * @implements {Zone$Type}
+ */
 class ZoneImplementsInterface implements Zone {
   zone: string;
 }
@@ -88,9 +94,12 @@ ZoneImplementsInterface.prototype.zone;
 }
 
 type ZoneAlias = Zone;
-/** @typedef {?} */
+/** @typedef {!Zone$Type} */
 var ZoneAlias;
 
+/**
+ * @implements {Zone$Type}
+ */
 class ZoneImplementsAlias implements ZoneAlias {
   zone: string;
 }
@@ -0,0 +1,13 @@
+goog.module('test_files.closure_enums.reverse_mapping.reverse_mapping');var module = module || {id: 'test_files/closure_enums.reverse_mapping/reverse_mapping.js'};
+/** @enum {number} */
+const Size = { Small: 0, Medium: 5, Large: 6 };
+Size[Size.Small] = "Small";
+Size[Size.Medium] = "Medium";
+Size[Size.Large] = "Large";
+let /** @type {!Size} */ size = Size.Large;
+let /** @type {string} */ sizeName = Size[size];
+/** @enum {number} */
+const Level = { Debug: 0, Info: 1 };
+exports.Level = Level;
+Level[Level.Debug] = "Debug";
+Level[Level.Info] = "Info";
@@ -0,0 +1,6 @@
+// With enumReverseMapping, Closure enums keep TypeScript's value to name mapping.
+enum Size {Small, Medium = 5, Large}
+let size: Size = Size.Large;
+let sizeName: string = Size[size];
+
+export enum Level {Debug, Info}
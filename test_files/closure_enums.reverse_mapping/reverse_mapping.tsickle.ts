@@ -0,0 +1,17 @@
+
+type Size = number;
+/** @enum {number} */
+const Size: any = {Small: 0, Medium: 5, Large: 6};
+Size[Size.Small] = "Small";
+Size[Size.Medium] = "Medium";
+Size[Size.Large] = "Large";
+
+let /** @type {!Size} */ size: Size = Size.Large;
+let /** @type {string} */ sizeName: string = Size[size];
+export type Level = number;
+/** @enum {number} */
+const Level: any = {Debug: 0, Info: 1};
+export {Level};
+Level[Level.Debug] = "Debug";
+Level[Level.Info] = "Info";
+
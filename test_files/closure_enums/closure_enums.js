@@ -0,0 +1,53 @@
+goog.module('test_files.closure_enums.closure_enums');var module = module || {id: 'test_files/closure_enums/closure_enums.js'};
+const tsickle_forward_declare_1 = goog.forwardDeclare('test_files.closure_enums.direction');
+/** @enum {string} */
+const Color = { Red: 'red', Green: 'green', Blue: 'blue' };
+/** @enum {string} */
+const Shape = { Circle: 'circle', Square: 'square' };
+exports.Shape = Shape;
+/** @typedef {string} */
+var Status;
+let /** @type {Color} */ color = Color.Red;
+let /** @type {(undefined|string)} */ shape;
+let /** @type {string} */ status = 'ok';
+/**
+ * @param {Color} c
+ * @param {tsickle_forward_declare_1.Direction} d
+ * @return {Shape}
+ */
+function paint(c, d) {
+    return Shape.Circle;
+}
+/** @enum {number} */
+const Size = { Small: 0, Medium: 5, Large: 6 };
+let /** @type {!Size} */ size = Size.Large;
+const /** @const @type {!Size} */ small = Size.Small;
+/**
+ * @param {!Size} s
+ * @return {(undefined|!Size)}
+ */
+function grow(s) {
+    return s === Size.Small ? Size.Medium : undefined;
+}
+/** @enum {number} */
+const Level = { Debug: 0, Info: 1 };
+exports.Level = Level;
+/**
+ * @param {!Level} level
+ * @param {string} message
+ * @return {void}
+ */
+function log(level, message) {
+    if (level === Level.Info)
+        console.log(message);
+}
+exports.log = log;
+let /** @type {number} */ inlined = 1 /* B */;
+let Computed = {};
+/** @type {number} */
+Computed.First = 1;
+/** @type {number} */
+Computed.Second = ((
+/** @type {function(): number} */ (() => 2)))();
+Computed[Computed.First] = "First";
+Computed[Computed.Second] = "Second";
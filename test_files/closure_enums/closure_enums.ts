@@ -0,0 +1,39 @@
+import {Direction} from './direction';
+
+// The values are referenced through a const of the same name, so these become Closure enums.
+type Color = 'red'|'green'|'blue';
+const Color = {Red: 'red' as Color, Green: 'green' as Color, Blue: 'blue' as Color};
+export type Shape = 'circle'|'square';
+export const Shape = {Circle: 'circle' as Shape, Square: 'square' as Shape};
+// TypeScript code uses plain strings for the values, so this stays a typedef.
+type Status = 'ok'|'not-found';
+
+let color: Color = Color.Red;
+let shape: Shape|undefined;
+let status: Status = 'ok';
+
+function paint(c: Color, d: Direction): Shape {
+  return Shape.Circle;
+}
+
+enum Size {Small, Medium = 5, Large}
+let size: Size = Size.Large;
+const small = Size.Small;
+function grow(s: Size): Size|undefined {
+  return s === Size.Small ? Size.Medium : undefined;
+}
+
+export enum Level {Debug, Info}
+export function log(level: Level, message: string) {
+  if (level === Level.Info) console.log(message);
+}
+
+// Const enums are inlined by TypeScript.
+const enum Inlined {A, B}
+let inlined: Inlined = Inlined.B;
+
+// Non-constant members cannot be evaluated in an object literal.
+enum Computed {
+  First = 1,
+  Second = (() => 2)(),
+}
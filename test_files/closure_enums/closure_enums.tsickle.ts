@@ -0,0 +1,70 @@
+Warning at test_files/closure_enums/closure_enums.ts:9:1: string literal union Status is emitted as a typedef, declare its values in a const Status to emit a Closure @enum
+====
+import {Direction} from './direction';
+const tsickle_forward_declare_1 = goog.forwardDeclare('test_files.closure_enums.direction');
+
+// The values are referenced through a const of the same name, so these become Closure enums.
+type Color = 'red'|'green'|'blue';
+/** @enum {string} */
+const Color = {Red:  'red', Green:  'green', Blue:  'blue'};
+export type Shape = 'circle'|'square';
+/** @enum {string} */
+const Shape = {Circle:  'circle', Square:  'square'};
+export {Shape};
+// TypeScript code uses plain strings for the values, so this stays a typedef.
+type Status = 'ok'|'not-found';
+/** @typedef {string} */
+var Status;
+
+
+let /** @type {Color} */ color: Color = Color.Red;
+let /** @type {(undefined|string)} */ shape: Shape|undefined;
+let /** @type {string} */ status: Status = 'ok';
+/**
+ * @param {Color} c
+ * @param {tsickle_forward_declare_1.Direction} d
+ * @return {Shape}
+ */
+function paint(c: Color, d: Direction): Shape {
+  return Shape.Circle;
+}
+type Size = number;
+/** @enum {number} */
+const Size: any = {Small: 0, Medium: 5, Large: 6};
+
+let /** @type {!Size} */ size: Size = Size.Large;
+const /** @const @type {!Size} */ small = Size.Small;
+/**
+ * @param {!Size} s
+ * @return {(undefined|!Size)}
+ */
+function grow(s: Size): Size|undefined {
+  return s === Size.Small ? Size.Medium : undefined;
+}
+export type Level = number;
+/** @enum {number} */
+const Level: any = {Debug: 0, Info: 1};
+export {Level};
+
+/**
+ * @param {!Level} level
+ * @param {string} message
+ * @return {void}
+ */
+export function log(level: Level, message: string) {
+  if (level === Level.Info) console.log(message);
+}
+
+// Const enums are inlined by TypeScript.
+const enum Inlined {A, B}
+let /** @type {number} */ inlined: Inlined = Inlined.B;
+type Computed = number;
+let Computed: any = {};
+/** @type {number} */
+Computed.First = 1;
+/** @type {number} */
+Computed.Second =  ((
+/** @type {function(): number} */ (() => 2)))();
+Computed[Computed.First] = "First";
+Computed[Computed.Second] = "Second";
+
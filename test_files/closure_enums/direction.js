@@ -0,0 +1,4 @@
+goog.module('test_files.closure_enums.direction');var module = module || {id: 'test_files/closure_enums/direction.js'};
+/** @enum {string} */
+const Direction = { Up: 'up', Down: 'down' };
+exports.Direction = Direction;
@@ -0,0 +1,2 @@
+export type Direction = 'up'|'down';
+export const Direction = {Up: 'up' as Direction, Down: 'down' as Direction};
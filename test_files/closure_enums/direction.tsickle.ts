@@ -0,0 +1,4 @@
+export type Direction = 'up'|'down';
+/** @enum {string} */
+const Direction = {Up:  'up', Down:  'down'};
+export {Direction};
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Closure externs that declare some of the symbols in
+ * closure_externs.d.ts.  The golden tests read them into
+ * Options.closureExterns, and the e2e test compiles against them.
+ * @externs
+ */
+
+/** @const */
+var google = {};
+
+/** @const */
+google.maps = {};
+
+/**
+ * @constructor
+ * @param {!HTMLElement} el
+ */
+google.maps.Map = function(el) {};
+
+/**
+ * @param {number} zoom
+ * @return {void}
+ */
+google.maps.Map.prototype.setZoom = function(zoom) {};
+
+/** @return {void} */
+function closureDeclaredFunction() {}
+
+/** @type {string} */
+var closureDeclaredVar;
+
+/** @type {string} */
+Window.prototype.closureDeclaredProp;
+
+/** @constructor */
+function ClosureDeclaredType() {}
@@ -0,0 +1,26 @@
+// Symbols that the Closure externs given in Options.closureExterns already
+// declare are not declared again.
+declare namespace google.maps {
+  class Map {
+    constructor(el: HTMLElement);
+    setZoom(zoom: number): void;
+    panTo(x: number, y: number): void;
+  }
+  class Marker {}
+}
+
+declare function closureDeclaredFunction(): void;
+declare var closureDeclaredVar: string;
+declare var notClosureDeclaredVar: string;
+
+interface Window {
+  closureDeclaredProp: string;
+  notClosureDeclaredProp: number;
+}
+
+// Not emitted under a distinct name, as Closure declares it.
+interface ClosureDeclaredType {
+  field: string;
+}
+declare var ClosureDeclaredType: ClosureDeclaredType;
+declare var usesClosureDeclaredType: ClosureDeclaredType;
@@ -0,0 +1,23 @@
+/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+
+/**
+ * @param {number} x
+ * @param {number} y
+ * @return {void}
+ */
+google.maps.Map.prototype.panTo = function(x, y) {};
+
+/** @constructor @struct */
+google.maps.Marker = function() {};
+ /** @type {string} */
+var notClosureDeclaredVar;
+ /** @type {number} */
+Window.prototype.notClosureDeclaredProp;
+ /** @type {string} */
+ClosureDeclaredType.prototype.field;
+ /** @type {!ClosureDeclaredType} */
+var usesClosureDeclaredType;
@@ -8,6 +8,10 @@ declare namespace DeclareTestModule {
     method(a: string): number;
   }
 
+  interface Bar extends Foo {
+    other: number;
+  }
+
   class Clazz {
     constructor(a: number);
     /** Comment */
@@ -32,8 +36,7 @@ declare namespace DeclareTestModule {
 }
 
 // This module is quoted, which declares an importable module.
-// We can't model this in externs beyond making sure it's declared
-// in *some* namespace;
+// Its externs are emitted into the namespace its name maps to.
 declare module "DeclareTest-QuotedModule" {
   var foo: string;
 }
@@ -100,3 +103,20 @@ declare enum ChartType {
 interface ErrorConstructor {
   foo(): void;
 }
+
+// An interface that is also a value is emitted under a distinct name.
+declare interface TypeAndValue { a: number; }
+declare var TypeAndValue: TypeAndValue;
+
+// Namespaces merged with a class or function declare its static members,
+// regardless of the order of the declarations.
+declare namespace DeclareTestMergedClass {
+  var staticField: string;
+}
+declare class DeclareTestMergedClass {
+  field: string;
+}
+declare function DeclareTestMergedFunction(): void;
+declare namespace DeclareTestMergedFunction {
+  var version: string;
+}
@@ -21,6 +21,15 @@ DeclareTestModule.Foo.prototype.field;
  */
 DeclareTestModule.Foo.prototype.method = function(a) {};
 
+/**
+ * @record
+ * @struct
+ * @extends {DeclareTestModule.Foo}
+ */
+DeclareTestModule.Bar = function() {};
+ /** @type {number} */
+DeclareTestModule.Bar.prototype.other;
+
 /**
  * @constructor
  * @struct
@@ -35,11 +44,13 @@ DeclareTestModule.Clazz = function(a) {};
  */
 DeclareTestModule.Clazz.prototype.method = function(a) {};
 
-/** @record @struct */
+/**
+ * @record
+ * @struct
+ * @extends {IObject<string,string>}
+ */
 DeclareTestModule.NotYetHandled = function() {};
 
-/* TODO: IndexSignature: DeclareTestModule */
-
 /** @const */
 DeclareTestModule.Enumeration = {};
 /** @const {number} */
@@ -56,13 +67,11 @@ DeclareTestModule.StringEnum.foo;
 
 /** @typedef {(string|number)} */
 DeclareTestModule.TypeAlias;
-/** @const */
-var tsickle_declare_module = {};
 // Derived from: declare module "DeclareTest-QuotedModule"
 /** @const */
-tsickle_declare_module.DeclareTest_QuotedModule = {};
+var DeclareTest_QuotedModule = {};
  /** @type {string} */
-tsickle_declare_module.DeclareTest_QuotedModule.foo;
+DeclareTest_QuotedModule.foo;
  /** @type {number} */
 var declareGlobalVar;
 
@@ -138,3 +147,24 @@ var ChartType = {};
 ChartType.line;
 /** @const {number} */
 ChartType.bar;
+
+/** @record @struct */
+function TypeAndValue$Type() {}
+ /** @type {number} */
+TypeAndValue$Type.prototype.a;
+ /** @type {!TypeAndValue$Type} */
+var TypeAndValue;
+ /** @type {string} */
+DeclareTestMergedClass.staticField;
+
+/** @constructor @struct */
+function DeclareTestMergedClass() {}
+ /** @type {string} */
+DeclareTestMergedClass.prototype.field;
+
+/**
+ * @return {void}
+ */
+function DeclareTestMergedFunction() {}
+ /** @type {string} */
+DeclareTestMergedFunction.version;
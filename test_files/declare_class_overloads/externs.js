@@ -31,9 +31,9 @@ function MultipleConstructorsNamesAndTypes(a_or_b) {}
  * @param {number} a
  * @param {number} b
  * @param {number} c
- * @param {(undefined|string)|(undefined|!Array<string>)=} normal_or_vertexNormals
- * @param {(undefined|boolean)|(undefined|!Array<boolean>)=} color_or_vertexColors
- * @param {(undefined|number)=} materialIndex
+ * @param {string|!Array<string>=} normal_or_vertexNormals
+ * @param {boolean|!Array<boolean>=} color_or_vertexColors
+ * @param {number=} materialIndex
  */
 function MultipleConstructorsComplexMatrix(a, b, c, normal_or_vertexNormals, color_or_vertexColors, materialIndex) {}
 
@@ -0,0 +1,9 @@
+goog.module('test_files.declare_global.declare_global');var module = module || {id: 'test_files/declare_global/declare_global.js'};
+/**
+ * @param {!HTMLElement} el
+ * @return {boolean}
+ */
+function isDebug(el) {
+    return window.myAppConfig.debug || el.myAppData === 'debug';
+}
+exports.isDebug = isDebug;
@@ -0,0 +1,19 @@
+// Augmentations of global types declare their members on the existing types.
+declare global {
+  interface Window {
+    myAppConfig: AppConfig;
+  }
+  interface HTMLElement {
+    myAppData?: string;
+  }
+  interface AppConfig {
+    debug: boolean;
+  }
+}
+/**
+ * @param {!HTMLElement} el
+ * @return {boolean}
+ */
+export function isDebug(el: HTMLElement): boolean {
+  return window.myAppConfig.debug || el.myAppData === 'debug';
+}
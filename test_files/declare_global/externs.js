@@ -0,0 +1,14 @@
+/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+ /** @type {!AppConfig} */
+Window.prototype.myAppConfig;
+ /** @type {(undefined|string)} */
+HTMLElement.prototype.myAppData;
+
+/** @record @struct */
+function AppConfig() {}
+ /** @type {boolean} */
+AppConfig.prototype.debug;
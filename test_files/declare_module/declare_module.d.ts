@@ -0,0 +1,34 @@
+// An ambient module for a library that is exposed as a global at runtime,
+// mapped to the global "_" through the moduleGlobals option.
+declare module 'lodash' {
+  interface Chain {
+    value(): number[];
+  }
+  function chain(values: number[]): Chain;
+  var VERSION: string;
+}
+
+// An ambient module without a moduleGlobals entry, whose externs land on the
+// namespace pathToModuleName maps it to.
+declare module 'third_party/some-lib' {
+  class Widget {
+    render(): void;
+  }
+}
+
+// An ambient module that exports an entity declared within it.
+declare module 'export-equals-lib' {
+  namespace lib {
+    interface Options {
+      verbose: boolean;
+    }
+    function run(options: Options): void;
+  }
+  export = lib;
+}
+
+// An ambient module with a default export, which importers reference as "default".
+declare module 'default-export-lib' {
+  function greet(name: string): string;
+  export default greet;
+}
@@ -0,0 +1,62 @@
+/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+// Derived from: declare module "lodash"
+/** @const */
+var _ = {};
+
+/** @record @struct */
+_.Chain = function() {};
+
+/**
+ * @return {!Array<number>}
+ */
+_.Chain.prototype.value = function() {};
+
+/**
+ * @param {!Array<number>} values
+ * @return {!_.Chain}
+ */
+_.chain = function(values) {};
+ /** @type {string} */
+_.VERSION;
+// Derived from: declare module "third_party/some-lib"
+/** @const */
+var third_party = {};
+/** @const */
+third_party.some_lib = {};
+
+/** @constructor @struct */
+third_party.some_lib.Widget = function() {};
+
+/**
+ * @return {void}
+ */
+third_party.some_lib.Widget.prototype.render = function() {};
+// Derived from: declare module "export-equals-lib"
+/** @const */
+var export_equals_lib = {};
+
+/** @record @struct */
+export_equals_lib.Options = function() {};
+ /** @type {boolean} */
+export_equals_lib.Options.prototype.verbose;
+
+/**
+ * @param {!export_equals_lib.Options} options
+ * @return {void}
+ */
+export_equals_lib.run = function(options) {};
+// Derived from: declare module "default-export-lib"
+/** @const */
+var default_export_lib = {};
+
+/**
+ * @param {string} name
+ * @return {string}
+ */
+default_export_lib.greet = function(name) {};
+/** @const */
+default_export_lib.default = default_export_lib.greet;
@@ -0,0 +1,24 @@
+goog.module('test_files.declare_module.user');var module = module || {id: 'test_files/declare_module/user.js'};
+/**
+ * @param {!_.Chain} chain
+ * @return {number}
+ */
+function sum(chain) {
+    return chain.value().reduce(/** @type {function(number, number): number} */ ((a, b) => a + b), 0);
+}
+exports.sum = sum;
+exports.version = _.VERSION;
+exports.widget = null;
+exports.options = { verbose: true };
+/**
+ * @param {!Array<number>} values
+ * @return {!third_party.some_lib.Widget}
+ */
+function render(values) {
+    const /** @type {!third_party.some_lib.Widget} */ widget = new third_party.some_lib.Widget();
+    widget.render();
+    export_equals_lib.run(exports.options);
+    return _.chain(values).value().length ? widget : new third_party.some_lib.Widget();
+}
+exports.render = render;
+exports.greeting = default_export_lib.default('world');
@@ -0,0 +1,23 @@
+import * as _ from 'lodash';
+import {chain as lodashChain} from 'lodash';
+import {Widget} from 'third_party/some-lib';
+import * as lib from 'export-equals-lib';
+import greet from 'default-export-lib';
+
+export function sum(chain: _.Chain): number {
+  return chain.value().reduce((a, b) => a + b, 0);
+}
+
+export let version = _.VERSION;
+export let widget: Widget|null = null;
+
+export let options: lib.Options = {verbose: true};
+
+export function render(values: number[]): Widget {
+  const widget = new Widget();
+  widget.render();
+  lib.run(options);
+  return lodashChain(values).value().length ? widget : new Widget();
+}
+
+export let greeting = greet('world');
@@ -0,0 +1,29 @@
+
+
+
+
+
+/**
+ * @param {!_.Chain} chain
+ * @return {number}
+ */
+export function sum(chain: _.Chain): number {
+  return chain.value().reduce(/** @type {function(number, number): number} */ ((a, b) => a + b), 0);
+}
+
+export let /** @type {string} */ version = _.VERSION;
+export let /** @type {?third_party.some_lib.Widget} */ widget: Widget|null = null;
+
+export let /** @type {!export_equals_lib.Options} */ options: lib.Options = {verbose: true};
+/**
+ * @param {!Array<number>} values
+ * @return {!third_party.some_lib.Widget}
+ */
+export function render(values: number[]): Widget {
+  const /** @type {!third_party.some_lib.Widget} */ widget = new third_party.some_lib.Widget();
+  widget.render();
+  export_equals_lib.run(options);
+  return _.chain(values).value().length ? widget : new third_party.some_lib.Widget();
+}
+
+export let /** @type {string} */ greeting = default_export_lib.default('world');
@@ -47,7 +47,7 @@ function DecoratorTest_tsickle_Closure_declarations() {
 DecoratorTest.decorators;
 /**
  * @nocollapse
- * @type {function(): !Array<(null|{type: ?, decorators: (undefined|!Array<!DecoratorInvocation>)})>}
+ * @type {function(): !Array<?{type: ?, decorators: (undefined|!Array<!DecoratorInvocation>)}>}
  */
 DecoratorTest.ctorParameters;
 /** @type {!Object<string,!Array<!DecoratorInvocation>>} */
@@ -1,6 +1,6 @@
 goog.module('test_files.enum.enum');var module = module || {id: 'test_files/enum/enum.js'};
 // Line with a missing semicolon should not break the following enum.
-const /** @type {!Array<?>} */ EnumTestMissingSemi = [];
+const /** @const @type {!Array<?>} */ EnumTestMissingSemi = [];
 let EnumTest1 = {};
 /** @type {number} */
 EnumTest1.XYZ = 0;
@@ -45,8 +45,78 @@ ComponentIndex[ComponentIndex.UserInfo2] = "UserInfo2";
 let /** @type {number} */ enumTestDisappears = 0 /* ShouldNotHaveAnyTsickleOutput */;
 let EnumWithNonConstValues = {};
 /** @type {number} */
-EnumWithNonConstValues.Scheme = (x => x + 1)(3);
+EnumWithNonConstValues.Scheme = ((
+/** @type {function(number): number} */ (x => x + 1)))(3);
 /** @type {number} */
 EnumWithNonConstValues.UserInfoRenamed = 2;
 EnumWithNonConstValues[EnumWithNonConstValues.Scheme] = "Scheme";
 EnumWithNonConstValues[EnumWithNonConstValues.UserInfoRenamed] = "UserInfoRenamed";
+/**
+ * @param {number} n
+ * @return {number}
+ */
+function bitFlag(n) {
+    return 1 << n;
+}
+let EnumWithSiblingReferences = {};
+/** @type {number} */
+EnumWithSiblingReferences.Read = bitFlag(0);
+/** @type {number} */
+EnumWithSiblingReferences.Write = bitFlag(1);
+/** @type {number} */
+EnumWithSiblingReferences.ReadWrite = EnumWithSiblingReferences.Read | EnumWithSiblingReferences.Write;
+/** @type {number} */
+EnumWithSiblingReferences.Everything = EnumWithSiblingReferences.ReadWrite | bitFlag(2);
+/** @type {number} */
+EnumWithSiblingReferences.Masked = Math.max(EnumWithSiblingReferences.Read, ({ Write: EnumWithSiblingReferences.Write }).Write);
+EnumWithSiblingReferences[EnumWithSiblingReferences.Read] = "Read";
+EnumWithSiblingReferences[EnumWithSiblingReferences.Write] = "Write";
+EnumWithSiblingReferences[EnumWithSiblingReferences.ReadWrite] = "ReadWrite";
+EnumWithSiblingReferences[EnumWithSiblingReferences.Everything] = "Everything";
+EnumWithSiblingReferences[EnumWithSiblingReferences.Masked] = "Masked";
+let EnumWithStringValues = {};
+/** @type {string} */
+EnumWithStringValues.Foo = ('foo');
+/** @type {string} */
+EnumWithStringValues["bar-baz"] = ('bar-baz');
+/** @type {string} */
+EnumWithStringValues["it's \"quoted\""] = ('quoted');
+/** @type {string} */
+EnumWithStringValues.Both = ((EnumWithStringValues.Foo + '|' + EnumWithStringValues['bar-baz']));
+EnumWithStringValues[EnumWithStringValues.Foo] = "Foo";
+EnumWithStringValues[EnumWithStringValues["bar-baz"]] = "bar-baz";
+EnumWithStringValues[EnumWithStringValues["it's \"quoted\""]] = "it's \"quoted\"";
+EnumWithStringValues[EnumWithStringValues.Both] = "Both";
+let EnumWithFunctionReference = {};
+/** @type {number} */
+EnumWithFunctionReference.First = bitFlag(0);
+/** @type {number} */
+EnumWithFunctionReference.Second = ((
+/** @type {function(): number} */ (() => EnumWithFunctionReference.First)))();
+/** @type {number} */
+EnumWithFunctionReference.Third = ((
+/** @type {function(number): number} */ (function (flag) { return flag | EnumWithFunctionReference.Second; })))(bitFlag(2));
+/** @type {number} */
+EnumWithFunctionReference.Fourth = ((
+/** @type {function(number=): number} */ ((flag = EnumWithFunctionReference.Third) => flag << 1)))();
+EnumWithFunctionReference[EnumWithFunctionReference.First] = "First";
+EnumWithFunctionReference[EnumWithFunctionReference.Second] = "Second";
+EnumWithFunctionReference[EnumWithFunctionReference.Third] = "Third";
+EnumWithFunctionReference[EnumWithFunctionReference.Fourth] = "Fourth";
+let EnumWithUnqualifiedReference = {};
+/** @type {number} */
+EnumWithUnqualifiedReference.First = bitFlag(0);
+/** @type {number} */
+EnumWithUnqualifiedReference.Second = ((
+/** @type {function(): number} */ (() => {
+    /**
+     * @param {number=} flags
+     * @return {number}
+     */
+    function withFirst(flags = First) {
+        return flags | bitFlag(1);
+    }
+    return withFirst();
+})))();
+EnumWithUnqualifiedReference[EnumWithUnqualifiedReference.First] = "First";
+EnumWithUnqualifiedReference[EnumWithUnqualifiedReference.Second] = "Second";
@@ -43,3 +43,44 @@ enum EnumWithNonConstValues {
   Scheme = (x => x + 1)(3),
   UserInfoRenamed = ComponentIndex.UserInfo,
 }
+
+function bitFlag(n: number): number {
+  return 1 << n;
+}
+
+// Non-constant initializers referring to other members of the same enum must
+// be qualified with the enum name, as in generated bitmask enums.
+enum EnumWithSiblingReferences {
+  Read = bitFlag(0),
+  Write = bitFlag(1),
+  ReadWrite = Read | Write,
+  Everything = EnumWithSiblingReferences.ReadWrite | bitFlag(2),
+  Masked = Math.max(Read, ({Write}).Write),
+}
+
+// Members with string values and quoted names.
+enum EnumWithStringValues {
+  Foo = <any>'foo',
+  'bar-baz' = <any>'bar-baz',
+  'it\'s "quoted"' = <any>'quoted',
+  Both = <any>(Foo + '|' + EnumWithStringValues['bar-baz']),
+}
+
+// References within function expressions are qualified as well.
+enum EnumWithFunctionReference {
+  First = bitFlag(0),
+  Second = (() => First)(),
+  Third = (function(flag: number) { return flag | Second; })(bitFlag(2)),
+  Fourth = ((flag = Third) => flag << 1)(),
+}
+
+// References in code that is emitted as written cannot be qualified and are reported.
+enum EnumWithUnqualifiedReference {
+  First = bitFlag(0),
+  Second = (() => {
+    function withFirst(flags = First) {
+      return flags | bitFlag(1);
+    }
+    return withFirst();
+  })(),
+}
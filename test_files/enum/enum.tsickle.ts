@@ -1,7 +1,8 @@
+Error at test_files/enum/enum.ts:81:32: cannot rewrite reference to member First of enum EnumWithUnqualifiedReference, reference it as EnumWithUnqualifiedReference.First instead
 Warning at test_files/enum/enum.ts:2:7: should not emit a 'never' type
 ====
 // Line with a missing semicolon should not break the following enum.
-const /** @type {!Array<?>} */ EnumTestMissingSemi = []
+const /** @const @type {!Array<?>} */ EnumTestMissingSemi = []
 type EnumTest1 = number;
 let EnumTest1: any = {};
 /** @type {number} */
@@ -60,9 +61,87 @@ let /** @type {number} */ enumTestDisappears = EnumTestDisappears.ShouldNotHaveA
 type EnumWithNonConstValues = number;
 let EnumWithNonConstValues: any = {};
 /** @type {number} */
-EnumWithNonConstValues.Scheme =  (x => x + 1)(3);
+EnumWithNonConstValues.Scheme =  ((
+/** @type {function(number): number} */ (x => x + 1)))(3);
 /** @type {number} */
 EnumWithNonConstValues.UserInfoRenamed = 2;
 EnumWithNonConstValues[EnumWithNonConstValues.Scheme] = "Scheme";
 EnumWithNonConstValues[EnumWithNonConstValues.UserInfoRenamed] = "UserInfoRenamed";
 
+/**
+ * @param {number} n
+ * @return {number}
+ */
+function bitFlag(n: number): number {
+  return 1 << n;
+}
+type EnumWithSiblingReferences = number;
+let EnumWithSiblingReferences: any = {};
+/** @type {number} */
+EnumWithSiblingReferences.Read =  bitFlag(0);
+/** @type {number} */
+EnumWithSiblingReferences.Write =  bitFlag(1);
+/** @type {number} */
+EnumWithSiblingReferences.ReadWrite =  EnumWithSiblingReferences.Read | EnumWithSiblingReferences.Write;
+/** @type {number} */
+EnumWithSiblingReferences.Everything =  EnumWithSiblingReferences.ReadWrite | bitFlag(2);
+/** @type {number} */
+EnumWithSiblingReferences.Masked =  Math.max(EnumWithSiblingReferences.Read, ({Write: EnumWithSiblingReferences.Write}).Write);
+EnumWithSiblingReferences[EnumWithSiblingReferences.Read] = "Read";
+EnumWithSiblingReferences[EnumWithSiblingReferences.Write] = "Write";
+EnumWithSiblingReferences[EnumWithSiblingReferences.ReadWrite] = "ReadWrite";
+EnumWithSiblingReferences[EnumWithSiblingReferences.Everything] = "Everything";
+EnumWithSiblingReferences[EnumWithSiblingReferences.Masked] = "Masked";
+
+type EnumWithStringValues = number;
+let EnumWithStringValues: any = {};
+/** @type {string} */
+EnumWithStringValues.Foo =  /** @type {?} */(( <any>'foo'));
+/** @type {string} */
+EnumWithStringValues["bar-baz"] =  /** @type {?} */(( <any>'bar-baz'));
+/** @type {string} */
+EnumWithStringValues["it's \"quoted\""] =  /** @type {?} */(( <any>'quoted'));
+/** @type {string} */
+EnumWithStringValues.Both =  /** @type {?} */(( <any>(EnumWithStringValues.Foo + '|' + EnumWithStringValues['bar-baz'])));
+EnumWithStringValues[EnumWithStringValues.Foo] = "Foo";
+EnumWithStringValues[EnumWithStringValues["bar-baz"]] = "bar-baz";
+EnumWithStringValues[EnumWithStringValues["it's \"quoted\""]] = "it's \"quoted\"";
+EnumWithStringValues[EnumWithStringValues.Both] = "Both";
+
+type EnumWithFunctionReference = number;
+let EnumWithFunctionReference: any = {};
+/** @type {number} */
+EnumWithFunctionReference.First =  bitFlag(0);
+/** @type {number} */
+EnumWithFunctionReference.Second =  ((
+/** @type {function(): number} */ (() => EnumWithFunctionReference.First)))();
+/** @type {number} */
+EnumWithFunctionReference.Third =  ((
+/** @type {function(number): number} */ (function(flag: number) { return flag | EnumWithFunctionReference.Second; })))(bitFlag(2));
+/** @type {number} */
+EnumWithFunctionReference.Fourth =  ((
+/** @type {function(number=): number} */ ((flag = EnumWithFunctionReference.Third) => flag << 1)))();
+EnumWithFunctionReference[EnumWithFunctionReference.First] = "First";
+EnumWithFunctionReference[EnumWithFunctionReference.Second] = "Second";
+EnumWithFunctionReference[EnumWithFunctionReference.Third] = "Third";
+EnumWithFunctionReference[EnumWithFunctionReference.Fourth] = "Fourth";
+
+type EnumWithUnqualifiedReference = number;
+let EnumWithUnqualifiedReference: any = {};
+/** @type {number} */
+EnumWithUnqualifiedReference.First =  bitFlag(0);
+/** @type {number} */
+EnumWithUnqualifiedReference.Second =  ((
+/** @type {function(): number} */ (() => {
+/**
+ * @param {number=} flags
+ * @return {number}
+ */
+function withFirst(flags = First) {
+      return flags | bitFlag(1);
+    }
+    return withFirst();
+  })))();
+EnumWithUnqualifiedReference[EnumWithUnqualifiedReference.First] = "First";
+EnumWithUnqualifiedReference[EnumWithUnqualifiedReference.Second] = "Second";
+
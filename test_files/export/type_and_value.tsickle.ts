@@ -1,2 +1,2 @@
-export const /** @type {number} */ TypeAndValue = 1;
+export const /** @const @type {number} */ TypeAndValue = 1;
 export type TypeAndValue = number;
@@ -0,0 +1,12 @@
+// A UMD module in the style of most DefinitelyTyped typings, whose global
+// name differs from the name of the exported entity.
+export = Moment;
+export as namespace moment;
+
+declare function Moment(input?: string): Moment.Moment;
+declare namespace Moment {
+  interface Moment {
+    format(): string;
+  }
+  var version: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+
+/**
+ * @param {string=} input
+ * @return {!moment.Moment}
+ */
+function Moment(input) {}
+
+/** @record @struct */
+Moment.Moment = function() {};
+
+/**
+ * @return {string}
+ */
+Moment.Moment.prototype.format = function() {};
+ /** @type {string} */
+Moment.version;
+/** @const */
+var moment = Moment;
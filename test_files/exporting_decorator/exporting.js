@@ -3,26 +3,30 @@ goog.module('test_files.exporting_decorator.exporting');var module = module || {
  * @return {function(?): void}
  */
 function exportingClassDecorator() {
-    return function (target) { };
+    return (
+    /** @type {function(?): void} */ (function (target) { }));
 }
 /**
  * @return {function(?): void}
  */
 function nonExportingClassDecorator() {
-    return function (target) { };
+    return (
+    /** @type {function(?): void} */ (function (target) { }));
 }
 /**
  * \@ExportDecoratedItems
  * @return {function(?, (string|symbol)): void}
  */
 function exportingFieldDecorator() {
-    return function (target, name) { };
+    return (
+    /** @type {function(?, (string|symbol)): void} */ (function (target, name) { }));
 }
 /**
  * @return {function(?, (string|symbol)): void}
  */
 function nonExportingFieldDecorator() {
-    return function (target, name) { };
+    return (
+    /** @type {function(?, (string|symbol)): void} */ (function (target, name) { }));
 }
 let ExportedClass = class ExportedClass {
 };
@@ -95,3 +99,12 @@ __decorate([
 NonExportedClass = __decorate([
     nonExportingClassDecorator()
 ], NonExportedClass);
+function NonExportedClass_tsickle_Closure_declarations() {
+    /**
+     * @const
+     * @type {number}
+     */
+    NonExportedClass.prototype.exportThisGetter;
+    /** @type {number} */
+    NonExportedClass.prototype.exportThisSetter;
+}
@@ -4,26 +4,30 @@
  * @return {function(?): void}
  */
 function exportingClassDecorator() {
-  return function(target: any) {}
+  return (
+/** @type {function(?): void} */ (function(target: any) {}))
 }
 /**
  * @return {function(?): void}
  */
 function nonExportingClassDecorator() {
-  return function(target: any) {}
+  return (
+/** @type {function(?): void} */ (function(target: any) {}))
 }
 /**
  * \@ExportDecoratedItems
  * @return {function(?, (string|symbol)): void}
  */
 function exportingFieldDecorator() {
-  return function(target: any, name: string|symbol) {}
+  return (
+/** @type {function(?, (string|symbol)): void} */ (function(target: any, name: string|symbol) {}))
 }
 /**
  * @return {function(?, (string|symbol)): void}
  */
 function nonExportingFieldDecorator() {
-  return function(target: any, name: string|symbol) {}
+  return (
+/** @type {function(?, (string|symbol)): void} */ (function(target: any, name: string|symbol) {}))
 }
 @exportingClassDecorator()
 class ExportedClass {
@@ -74,3 +78,14 @@ class NonExportedClass {
     console.log(`I don't really care about ${x}.`);
   }
 }
+
+function NonExportedClass_tsickle_Closure_declarations() {
+/**
+ * @const
+ * @type {number}
+ */
+NonExportedClass.prototype.exportThisGetter;
+/** @type {number} */
+NonExportedClass.prototype.exportThisSetter;
+}
+
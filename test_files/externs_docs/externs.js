@@ -0,0 +1,55 @@
+/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+/** @const */
+var ExternsDocs = {};
+
+/** @record @struct */
+ExternsDocs.Options = function() {};
+ /**
+ * Whether to log debug output.
+ * @type {boolean}
+ */
+ExternsDocs.Options.prototype.verbose;
+ /**
+ * The request timeout.
+ * @deprecated Use deadline instead.
+ * @see https://example.com/timeouts
+ * @type {number}
+ */
+ExternsDocs.Options.prototype.timeout;
+ /**
+ * An unknown tag is escaped. \@customTag
+ * @type {number}
+ */
+ExternsDocs.Options.prototype.retries;
+ /** @type {string} */
+ExternsDocs.Options.prototype.undocumented;
+
+/**
+ * The level of logging.
+ * @deprecated Use Options.verbose.
+ * @const
+ */
+ExternsDocs.LogLevel = {};
+/**
+ * Only errors.
+ * @const {number}
+ */
+ExternsDocs.LogLevel.ERROR;
+/** @const {number} */
+ExternsDocs.LogLevel.INFO;
+ /**
+ * The version of the library.
+ * @type {string}
+ */
+ExternsDocs.version;
+
+/**
+ * A callback for results.
+ * @see Options
+ * @typedef {function(string): void}
+ */
+ExternsDocs.Callback;
@@ -0,0 +1,36 @@
+// Documentation is carried over into externs, so that Closure reports uses
+// of deprecated APIs.
+declare namespace ExternsDocs {
+  interface Options {
+    /** Whether to log debug output. */
+    verbose: boolean;
+    /**
+     * The request timeout.
+     * @deprecated Use deadline instead.
+     * @see https://example.com/timeouts
+     */
+    timeout: number;
+    /** An unknown tag is escaped. @customTag */
+    retries: number;
+    undocumented: string;
+  }
+
+  /**
+   * The level of logging.
+   * @deprecated Use Options.verbose.
+   */
+  enum LogLevel {
+    /** Only errors. */
+    ERROR,
+    INFO,
+  }
+
+  /** The version of the library. */
+  var version: string;
+
+  /**
+   * A callback for results.
+   * @see Options
+   */
+  type Callback = (result: string) => void;
+}
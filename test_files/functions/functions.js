@@ -19,12 +19,29 @@ function Test2(a, b) { }
  */
 function Test3(a, b) { }
 /**
- * @param {?} a
+ * @param {number|?} a
  * @return {string}
  */
 function Test4(a) {
     return 'a';
 }
+/**
+ * @param {string|number} value
+ * @param {boolean=} flag
+ * @return {string|number}
+ */
+function Test5(value, flag) {
+    return value;
+}
+/**
+ * @deprecated Use Test1 instead.
+ * @see Test1
+ * @param {string|number} a
+ * @return {string|number}
+ */
+function Test6(a) {
+    return a;
+}
 /**
  * @this {string}
  * @param {...?} params
@@ -13,6 +13,26 @@ function Test4(a: any): string {
   return 'a';
 }
 
+function Test5(a: string): string;
+function Test5(a: number, b: boolean): number;
+function Test5(value: string|number, flag?: boolean): string|number {
+  return value;
+}
+
+/**
+ * @deprecated Use Test1 instead.
+ * @see Test1
+ */
+function Test6(a: string): string;
+/**
+ * @deprecated Use Test1 instead.
+ * @see Test1
+ */
+function Test6(a: number): number;
+function Test6(a: string|number): string|number {
+  return a;
+}
+
 // Test a "this" param and a rest param in the same function.
 function TestThisAndRest(this: string, ...params: any[]) {}
 TestThisAndRest.call('foo', 'bar', 3);
@@ -23,12 +23,43 @@ function Test3(a: number, b: number) {}
 // Test overloaded functions.
 function Test4(a: number): string;
 /**
- * @param {?} a
+ * @param {number|?} a
  * @return {string}
  */
 function Test4(a: any): string {
   return 'a';
 }
+
+function Test5(a: string): string;
+function Test5(a: number, b: boolean): number;
+/**
+ * @param {string|number} value
+ * @param {boolean=} flag
+ * @return {string|number}
+ */
+function Test5(value: string|number, flag?: boolean): string|number {
+  return value;
+}
+
+/**
+ * @deprecated Use Test1 instead.
+ * @see Test1
+ */
+function Test6(a: string): string;
+/**
+ * @deprecated Use Test1 instead.
+ * @see Test1
+ */
+function Test6(a: number): number;
+/**
+ * @deprecated Use Test1 instead.
+ * @see Test1
+ * @param {string|number} a
+ * @return {string|number}
+ */
+function Test6(a: string|number): string|number {
+  return a;
+}
 /**
  * @this {string}
  * @param {...?} params
@@ -0,0 +1,19 @@
+/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+
+/**
+ * @constructor
+ * @struct
+ * @template T
+ */
+function DeclaredContainer() {}
+ /** @type {T} */
+DeclaredContainer.prototype.value;
+
+/**
+ * @return {T}
+ */
+DeclaredContainer.prototype.get = function() {};
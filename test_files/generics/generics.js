@@ -0,0 +1,67 @@
+goog.module('test_files.generics.generics');var module = module || {id: 'test_files/generics/generics.js'};/**
+ * @template T
+ * @param {T} t
+ * @return {T}
+ */
+function identity(t) {
+    return t;
+}
+/**
+ * @template K, V
+ * @param {K} key
+ * @param {V} value
+ * @return {{key: K, value: V}}
+ */
+function pair(key, value) {
+    let /** @type {{key: K, value: V}} */ result = { key, value };
+    return result;
+}
+/**
+ * @template T
+ */
+class Container {
+    /**
+     * @param {T} initial
+     */
+    constructor(initial) {
+        this.initial = initial;
+        this.items = [];
+        this.value = initial;
+    }
+    /**
+     * @return {T}
+     */
+    get() {
+        return this.value;
+    }
+    /**
+     * @template U
+     * @param {function(T): U} fn
+     * @return {!Container<U>}
+     */
+    map(fn) {
+        return new Container(fn(this.value));
+    }
+}
+function Container_tsickle_Closure_declarations() {
+    /** @type {T} */
+    Container.prototype.value;
+    /** @type {!Array<T>} */
+    Container.prototype.items;
+    /** @type {T} */
+    Container.prototype.initial;
+}
+/**
+ * @record
+ * @template T
+ */
+function Observer() { }
+/** @type {function(T): void} */
+Observer.prototype.next;
+/** @type {T} */
+Observer.prototype.last;
+let /** @type {!Container<number>} */ numbers = new Container(1);
+let /** @type {!Container<string>} */ strings = numbers.map(/** @type {function(number): string} */ (n => String(n)));
+/** @typedef {{first: ?, second: ?}} */
+var Pair;
+let /** @type {{first: number, second: number}} */ pairOfNumbers = { first: 1, second: 2 };
@@ -0,0 +1,42 @@
+function identity<T>(t: T): T {
+  return t;
+}
+
+function pair<K, V>(key: K, value: V): {key: K, value: V} {
+  let result: {key: K, value: V} = {key, value};
+  return result;
+}
+
+class Container<T> {
+  value: T;
+  items: T[] = [];
+
+  constructor(public initial: T) {
+    this.value = initial;
+  }
+
+  get(): T {
+    return this.value;
+  }
+
+  map<U>(fn: (t: T) => U): Container<U> {
+    return new Container(fn(this.value));
+  }
+}
+
+interface Observer<T> {
+  next(value: T): void;
+  last: T;
+}
+
+let numbers: Container<number> = new Container(1);
+let strings: Container<string> = numbers.map(n => String(n));
+
+// Type aliases cannot carry an @template in Closure, so T stays unknown here.
+type Pair<T> = {first: T, second: T};
+let pairOfNumbers: Pair<number> = {first: 1, second: 2};
+
+declare class DeclaredContainer<T> {
+  value: T;
+  get(): T;
+}
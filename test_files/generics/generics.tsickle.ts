@@ -0,0 +1,89 @@
+Warning at test_files/generics/generics.ts:36:1: unhandled type flags: TypeParameter
+Warning at test_files/generics/generics.ts:36:1: unhandled type flags: TypeParameter
+====
+
+/**
+ * @template T
+ * @param {T} t
+ * @return {T}
+ */
+function identity<T>(t: T): T {
+  return t;
+}
+/**
+ * @template K, V
+ * @param {K} key
+ * @param {V} value
+ * @return {{key: K, value: V}}
+ */
+function pair<K, V>(key: K, value: V): {key: K, value: V} {
+  let /** @type {{key: K, value: V}} */ result: {key: K, value: V} = {key, value};
+  return result;
+}
+/**
+ * @template T
+ */
+class Container<T> {
+  value: T;
+  items: T[] = [];
+/**
+ * @param {T} initial
+ */
+constructor(public initial: T) {
+    this.value = initial;
+  }
+/**
+ * @return {T}
+ */
+get(): T {
+    return this.value;
+  }
+/**
+ * @template U
+ * @param {function(T): U} fn
+ * @return {!Container<U>}
+ */
+map<U>(fn: (t: T) => U): Container<U> {
+    return new Container(fn(this.value));
+  }
+}
+
+function Container_tsickle_Closure_declarations() {
+/** @type {T} */
+Container.prototype.value;
+/** @type {!Array<T>} */
+Container.prototype.items;
+/** @type {T} */
+Container.prototype.initial;
+}
+
+/**
+ * @record
+ * @template T
+ */
+function Observer() {}
+/** @type {function(T): void} */
+Observer.prototype.next;
+/** @type {T} */
+Observer.prototype.last;
+
+
+interface Observer<T> {
+  next(value: T): void;
+  last: T;
+}
+
+let /** @type {!Container<number>} */ numbers: Container<number> = new Container(1);
+let /** @type {!Container<string>} */ strings: Container<string> = numbers.map(/** @type {function(number): string} */ (n => String(n)));
+
+// Type aliases cannot carry an @template in Closure, so T stays unknown here.
+type Pair<T> = {first: T, second: T};
+/** @typedef {{first: ?, second: ?}} */
+var Pair;
+
+let /** @type {{first: number, second: number}} */ pairOfNumbers: Pair<number> = {first: 1, second: 2};
+
+declare class DeclaredContainer<T> {
+  value: T;
+  get(): T;
+}
@@ -1 +1 @@
-export const /** @type {number} */ a = 1;
+export const /** @const @type {number} */ a = 1;
@@ -1 +1 @@
-export const /** @type {number} */ b = 2;
+export const /** @const @type {number} */ b = 2;
@@ -0,0 +1,14 @@
+/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+
+/**
+ * @record
+ * @struct
+ * @extends {IObject<string,number>}
+ */
+function AmbientDictionary() {}
+ /** @type {number} */
+AmbientDictionary.prototype.size;
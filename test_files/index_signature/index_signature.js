@@ -0,0 +1,10 @@
+goog.module('test_files.index_signature.index_signature');var module = module || {id: 'test_files/index_signature/index_signature.js'};// With indexSignatureTranslation set to 'object', types with both an index signature and named
+// fields become Object maps covering all values.
+let /** @type {!Object<string,number>} */ config = { length: 0 };
+let /** @type {!Object<string,(string|number)>} */ mixed = { name: '', count: 0 };
+let /** @type {!Object<number,string>} */ byIndex = { first: '' };
+/**
+ * @record
+ * @extends {IObject<string,boolean>}
+ */
+function Dictionary() { }
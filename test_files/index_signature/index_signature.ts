@@ -0,0 +1,14 @@
+// With indexSignatureTranslation set to 'object', types with both an index signature and named
+// fields become Object maps covering all values.
+let config: {[key: string]: number, length: number} = {length: 0};
+let mixed: {[key: string]: string|number, name: string, count: number} = {name: '', count: 0};
+let byIndex: {[index: number]: string, first: string} = {first: ''};
+
+interface Dictionary {
+  [key: string]: boolean;
+}
+
+declare interface AmbientDictionary {
+  [key: string]: number;
+  size: number;
+}
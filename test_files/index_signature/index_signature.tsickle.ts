@@ -0,0 +1,20 @@
+// With indexSignatureTranslation set to 'object', types with both an index signature and named
+// fields become Object maps covering all values.
+let /** @type {!Object<string,number>} */ config: {[key: string]: number, length: number} = {length: 0};
+let /** @type {!Object<string,(string|number)>} */ mixed: {[key: string]: string|number, name: string, count: number} = {name: '', count: 0};
+let /** @type {!Object<number,string>} */ byIndex: {[index: number]: string, first: string} = {first: ''};
+/**
+ * @record
+ * @extends {IObject<string,boolean>}
+ */
+function Dictionary() {}
+
+
+interface Dictionary {
+  [key: string]: boolean;
+}
+
+declare interface AmbientDictionary {
+  [key: string]: number;
+  size: number;
+}
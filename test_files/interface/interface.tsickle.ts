@@ -33,17 +33,13 @@ function usePoint(p: Point): number {
 let /** @type {!Point} */ p: Point = {x: 1, y: 1};
 usePoint(p);
 usePoint({x: 1, y: 1});
-/** @record */
+/**
+ * @record
+ * @extends {IObject<number,number>}
+ */
 function TrickyInterface() {}
-/* TODO: handle strange member:
-[offset: number]: number;
-*/
 /** @type {number} */
 TrickyInterface.prototype.foo;
-/* TODO: handle strange member:
-(x: number): __ yuck __
-      number;
-*/
 /** @type {(undefined|string)} */
 TrickyInterface.prototype.foobar;
 /**
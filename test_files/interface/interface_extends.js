@@ -0,0 +1,35 @@
+goog.module('test_files.interface.interface_extends');var module = module || {id: 'test_files/interface/interface_extends.js'};
+const tsickle_forward_declare_1 = goog.forwardDeclare('test_files.interface.interface');
+/** @record */
+function Shape() { }
+/** @type {function(): number} */
+Shape.prototype.area;
+/**
+ * @record
+ * @template T
+ */
+function Named() { }
+/** @type {T} */
+Named.prototype.name;
+/**
+ * @record
+ * @extends {tsickle_forward_declare_1.Point}
+ */
+function Point3() { }
+/** @type {number} */
+Point3.prototype.z;
+/**
+ * @record
+ * @extends {Shape}
+ * @extends {Named<string>}
+ */
+function NamedShape() { }
+/** @type {number} */
+NamedShape.prototype.sides;
+/**
+ * @record
+ * @template T
+ * @extends {Named<T>}
+ */
+function NamedOf() { }
+let /** @type {!Point3} */ p3 = { x: 1, y: 1, z: 1 };
@@ -0,0 +1,21 @@
+import {Point} from './interface';
+
+interface Shape {
+  area(): number;
+}
+
+interface Named<T> {
+  name: T;
+}
+
+interface Point3 extends Point {
+  z: number;
+}
+
+interface NamedShape extends Shape, Named<string> {
+  sides: number;
+}
+
+interface NamedOf<T> extends Named<T> {}
+
+let p3: Point3 = {x: 1, y: 1, z: 1};
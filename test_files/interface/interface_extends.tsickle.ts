@@ -0,0 +1,59 @@
+import {Point} from './interface';
+const tsickle_forward_declare_1 = goog.forwardDeclare('test_files.interface.interface');
+/** @record */
+function Shape() {}
+/** @type {function(): number} */
+Shape.prototype.area;
+
+
+interface Shape {
+  area(): number;
+}
+/**
+ * @record
+ * @template T
+ */
+function Named() {}
+/** @type {T} */
+Named.prototype.name;
+
+
+interface Named<T> {
+  name: T;
+}
+/**
+ * @record
+ * @extends {tsickle_forward_declare_1.Point}
+ */
+function Point3() {}
+/** @type {number} */
+Point3.prototype.z;
+
+
+interface Point3 extends Point {
+  z: number;
+}
+/**
+ * @record
+ * @extends {Shape}
+ * @extends {Named<string>}
+ */
+function NamedShape() {}
+/** @type {number} */
+NamedShape.prototype.sides;
+
+
+interface NamedShape extends Shape, Named<string> {
+  sides: number;
+}
+/**
+ * @record
+ * @template T
+ * @extends {Named<T>}
+ */
+function NamedOf() {}
+
+
+interface NamedOf<T> extends Named<T> {}
+
+let /** @type {!Point3} */ p3: Point3 = {x: 1, y: 1, z: 1};
@@ -0,0 +1,40 @@
+goog.module('test_files.intersection.intersection');var module = module || {id: 'test_files/intersection/intersection.js'};/** @record */
+function HasName() { }
+/** @type {string} */
+HasName.prototype.name;
+class Entity {
+}
+function Entity_tsickle_Closure_declarations() {
+    /** @type {number} */
+    Entity.prototype.id;
+}
+let /** @type {{a: number, b: string}} */ named = { a: 1, b: 'b' };
+// Intersections with a class are emitted as the class, which their values are instances of.
+let /** @type {!Entity} */ mixed = (new Entity());
+let /** @type {{name: string, age: number}} */ nameAndAge = { name: 'x', age: 1 };
+/**
+ * @param {!HasName} callableEntity
+ * @return {string}
+ */
+function nameOf(callableEntity) {
+    // Not expressible as a record type, so this falls back to the nominal type.
+    return callableEntity.name;
+}
+/**
+ * @template T
+ * @param {T} t
+ * @return {!Array<string>}
+ */
+function keys(t) {
+    return (Object.keys(t));
+}
+/**
+ * @template T, K
+ * @param {T} t
+ * @param {K} key
+ * @return {number}
+ */
+function getProperty(t, key) {
+    return t[key];
+}
+let /** @type {string} */ nameKey = 'name';
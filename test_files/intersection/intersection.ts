@@ -0,0 +1,26 @@
+interface HasName {
+  name: string;
+}
+
+class Entity {
+  id: number;
+}
+
+let named: {a: number} & {b: string} = {a: 1, b: 'b'};
+// Intersections with a class are emitted as the class, which their values are instances of.
+let mixed = new Entity() as Entity & HasName;
+let nameAndAge: HasName & {age: number} = {name: 'x', age: 1};
+function nameOf(callableEntity: HasName & (() => void)): string {
+  // Not expressible as a record type, so this falls back to the nominal type.
+  return callableEntity.name;
+}
+
+function keys<T>(t: T): Array<keyof T> {
+  return Object.keys(t) as Array<keyof T>;
+}
+
+function getProperty<T extends {[key: string]: number}, K extends keyof T>(t: T, key: K): T[K] {
+  return t[key];
+}
+
+let nameKey: keyof HasName = 'name';
@@ -0,0 +1,49 @@
+
+/** @record */
+function HasName() {}
+/** @type {string} */
+HasName.prototype.name;
+interface HasName {
+  name: string;
+}
+class Entity {
+  id: number;
+}
+
+function Entity_tsickle_Closure_declarations() {
+/** @type {number} */
+Entity.prototype.id;
+}
+
+
+let /** @type {{a: number, b: string}} */ named: {a: number} & {b: string} = {a: 1, b: 'b'};
+// Intersections with a class are emitted as the class, which their values are instances of.
+let /** @type {!Entity} */ mixed = /** @type {!Entity} */(( new Entity() as Entity & HasName));
+let /** @type {{name: string, age: number}} */ nameAndAge: HasName & {age: number} = {name: 'x', age: 1};
+/**
+ * @param {!HasName} callableEntity
+ * @return {string}
+ */
+function nameOf(callableEntity: HasName & (() => void)): string {
+  // Not expressible as a record type, so this falls back to the nominal type.
+  return callableEntity.name;
+}
+/**
+ * @template T
+ * @param {T} t
+ * @return {!Array<string>}
+ */
+function keys<T>(t: T): Array<keyof T> {
+  return /** @type {!Array<string>} */(( Object.keys(t) as Array<keyof T>));
+}
+/**
+ * @template T, K
+ * @param {T} t
+ * @param {K} key
+ * @return {number}
+ */
+function getProperty<T extends {[key: string]: number}, K extends keyof T>(t: T, key: K): T[K] {
+  return t[key];
+}
+
+let /** @type {string} */ nameKey: keyof HasName = 'name';
@@ -50,7 +50,7 @@ function JSDocTest_tsickle_Closure_declarations() {
     JSDocTest.prototype.stringWithoutJSDoc;
     /** @type {number} */
     JSDocTest.prototype.typedThing;
-    /** @type {?} */
+    /** @type {{A: string}} */
     JSDocTest.prototype.badEnumThing;
     /** @type {string} */
     JSDocTest.prototype.badConstThing;
@@ -17,7 +17,6 @@ Warning at test_files/jsdoc/jsdoc.ts:65:1: @interface annotations are redundant
 Warning at test_files/jsdoc/jsdoc.ts:74:1: @extends annotations are redundant with TypeScript equivalents
 @implements annotations are redundant with TypeScript equivalents
 Warning at test_files/jsdoc/jsdoc.ts:81:3: @constructor annotations are redundant with TypeScript equivalents
-Warning at test_files/jsdoc/jsdoc.ts:41:3: unhandled anonymous type
 ====
 
 /**
@@ -88,7 +87,7 @@ JSDocTest.prototype.badExport;
 JSDocTest.prototype.stringWithoutJSDoc;
 /** @type {number} */
 JSDocTest.prototype.typedThing;
-/** @type {?} */
+/** @type {{A: string}} */
 JSDocTest.prototype.badEnumThing;
 /** @type {string} */
 JSDocTest.prototype.badConstThing;
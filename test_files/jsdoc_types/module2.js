@@ -10,6 +10,9 @@ function Interface() { }
 exports.Interface = Interface;
 /** @type {number} */
 Interface.prototype.x;
+/**
+ * @template T
+ */
 class ClassWithParams {
 }
 exports.ClassWithParams = ClassWithParams;
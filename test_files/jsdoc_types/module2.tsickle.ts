@@ -7,6 +7,9 @@ export function Interface() {}
 Interface.prototype.x;
 
 export interface Interface { x: number }
+/**
+ * @template T
+ */
 export class ClassWithParams<T> {}
 
 // TODO(evanm):
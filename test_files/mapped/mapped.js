@@ -0,0 +1,36 @@
+goog.module('test_files.mapped.mapped');var module = module || {id: 'test_files/mapped/mapped.js'};/** @record */
+function Settings() { }
+/** @type {string} */
+Settings.prototype.name;
+/** @type {number} */
+Settings.prototype.size;
+let /** @type {{name: (undefined|string), size: (undefined|number)}} */ partial = { name: 'x' };
+let /** @type {{name: string, size: number}} */ readonlySettings = { name: 'x', size: 1 };
+let /** @type {{a: boolean, b: boolean}} */ record = { a: true, b: false };
+let /** @type {!Object<string,number>} */ dictionary = {};
+/**
+ * @template T
+ * @param {T} t
+ * @param {?} changes
+ * @return {T}
+ */
+function update(t, changes) {
+    return Object.assign({}, t, changes);
+}
+// Inferred object literal types.
+let /** @type {{a: number, b: {c: string}}} */ inferred = { a: 1, b: { c: 'c' } };
+let /** @type {{a: number, b: {c: string}}} */ inferredCopy = inferred;
+/** @typedef {{first: ?, second: ?}} */
+var Pair;
+let /** @type {{first: number, second: number}} */ pairOfNumbers = { first: 1, second: 2 };
+/**
+ * @param {{first: string, second: string}} a
+ * @param {{first: string, second: string}} b
+ * @return {void}
+ */
+function swap(a, b) { }
+/** @record */
+function TreeNode() { }
+/** @type {!Array<{children: (undefined|!Array<?>)}>} */
+TreeNode.prototype.children;
+let /** @type {{children: (undefined|!Array<?>)}} */ tree = {};
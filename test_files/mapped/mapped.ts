@@ -0,0 +1,28 @@
+interface Settings {
+  name: string;
+  size: number;
+}
+
+let partial: Partial<Settings> = {name: 'x'};
+let readonlySettings: Readonly<Settings> = {name: 'x', size: 1};
+let record: Record<'a'|'b', boolean> = {a: true, b: false};
+let dictionary: Record<string, number> = {};
+
+function update<T>(t: T, changes: Partial<T>): T {
+  return Object.assign({}, t, changes);
+}
+
+// Inferred object literal types.
+let inferred = {a: 1, b: {c: 'c'}};
+let inferredCopy = inferred;
+
+// Instantiated generic type literals.
+type Pair<T> = {first: T, second: T};
+let pairOfNumbers: Pair<number> = {first: 1, second: 2};
+function swap(a: Pair<string>, b: Pair<string>) {}
+
+// Recursive types.
+interface TreeNode {
+  children: Partial<TreeNode>[];
+}
+let tree: Partial<TreeNode> = {};
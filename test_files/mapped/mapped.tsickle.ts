@@ -0,0 +1,57 @@
+Warning at test_files/mapped/mapped.ts:11:1: unhandled mapped type {type flags:0x8000 Object object:Mapped object:Instantiated}
+Warning at test_files/mapped/mapped.ts:20:1: unhandled type flags: TypeParameter
+Warning at test_files/mapped/mapped.ts:20:1: unhandled type flags: TypeParameter
+====
+
+/** @record */
+function Settings() {}
+/** @type {string} */
+Settings.prototype.name;
+/** @type {number} */
+Settings.prototype.size;
+interface Settings {
+  name: string;
+  size: number;
+}
+
+let /** @type {{name: (undefined|string), size: (undefined|number)}} */ partial: Partial<Settings> = {name: 'x'};
+let /** @type {{name: string, size: number}} */ readonlySettings: Readonly<Settings> = {name: 'x', size: 1};
+let /** @type {{a: boolean, b: boolean}} */ record: Record<'a'|'b', boolean> = {a: true, b: false};
+let /** @type {!Object<string,number>} */ dictionary: Record<string, number> = {};
+/**
+ * @template T
+ * @param {T} t
+ * @param {?} changes
+ * @return {T}
+ */
+function update<T>(t: T, changes: Partial<T>): T {
+  return Object.assign({}, t, changes);
+}
+
+// Inferred object literal types.
+let /** @type {{a: number, b: {c: string}}} */ inferred = {a: 1, b: {c: 'c'}};
+let /** @type {{a: number, b: {c: string}}} */ inferredCopy = inferred;
+
+// Instantiated generic type literals.
+type Pair<T> = {first: T, second: T};
+/** @typedef {{first: ?, second: ?}} */
+var Pair;
+
+let /** @type {{first: number, second: number}} */ pairOfNumbers: Pair<number> = {first: 1, second: 2};
+/**
+ * @param {{first: string, second: string}} a
+ * @param {{first: string, second: string}} b
+ * @return {void}
+ */
+function swap(a: Pair<string>, b: Pair<string>) {}
+/** @record */
+function TreeNode() {}
+/** @type {!Array<{children: (undefined|!Array<?>)}>} */
+TreeNode.prototype.children;
+
+
+// Recursive types.
+interface TreeNode {
+  children: Partial<TreeNode>[];
+}
+let /** @type {{children: (undefined|!Array<?>)}} */ tree: Partial<TreeNode> = {};
@@ -8,6 +8,12 @@ goog.module('test_files.methods.methods');var module = module || {id: 'test_file
      * @return {number}
      */
     two(a) { return 1; }
+    /**
+     * @param {string|number} a
+     * @param {number=} b
+     * @return {string|number}
+     */
+    three(a, b) { return a; }
     /**
      * @return {number}
      */
@@ -17,8 +23,28 @@ goog.module('test_files.methods.methods');var module = module || {id: 'test_file
      * @return {void}
      */
     set f(n) { this._f = n - 1; }
+    /**
+     * @return {string}
+     */
+    get readOnly() { return 'ro'; }
+    /**
+     * @return {number}
+     */
+    static get instanceCount() { return 0; }
 }
 function HasMethods_tsickle_Closure_declarations() {
+    /**
+     * @const
+     * @type {number}
+     */
+    HasMethods.instanceCount;
     /** @type {number} */
     HasMethods.prototype._f;
+    /** @type {number} */
+    HasMethods.prototype.f;
+    /**
+     * @const
+     * @type {string}
+     */
+    HasMethods.prototype.readOnly;
 }
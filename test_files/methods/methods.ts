@@ -4,6 +4,13 @@ class HasMethods {
   one() {}
   two(a: string): number { return 1; }
 
+  three(a: string): string;
+  three(a: number, b: number): number;
+  three(a: string|number, b?: number): string|number { return a; }
+
   get f(): number { return this._f + 1; }
   set f(n: number) { this._f = n - 1; }
+
+  get readOnly(): string { return 'ro'; }
+  static get instanceCount(): number { return 0; }
 }
@@ -10,6 +10,15 @@ one() {}
  * @return {number}
  */
 two(a: string): number { return 1; }
+
+  three(a: string): string;
+  three(a: number, b: number): number;
+/**
+ * @param {string|number} a
+ * @param {number=} b
+ * @return {string|number}
+ */
+three(a: string|number, b?: number): string|number { return a; }
 /**
  * @return {number}
  */
@@ -19,10 +28,30 @@ get f(): number { return this._f + 1; }
  * @return {void}
  */
 set f(n: number) { this._f = n - 1; }
+/**
+ * @return {string}
+ */
+get readOnly(): string { return 'ro'; }
+/**
+ * @return {number}
+ */
+static get instanceCount(): number { return 0; }
 }
 
 function HasMethods_tsickle_Closure_declarations() {
+/**
+ * @const
+ * @type {number}
+ */
+HasMethods.instanceCount;
 /** @type {number} */
 HasMethods.prototype._f;
+/** @type {number} */
+HasMethods.prototype.f;
+/**
+ * @const
+ * @type {string}
+ */
+HasMethods.prototype.readOnly;
 }
 
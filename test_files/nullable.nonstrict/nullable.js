@@ -0,0 +1,29 @@
+goog.module('test_files.nullable.nonstrict.nullable');var module = module || {id: 'test_files/nullable.nonstrict/nullable.js'};class NonPrimitive {
+}
+class NonPrimitives {
+}
+function NonPrimitives_tsickle_Closure_declarations() {
+    /** @type {NonPrimitive} */
+    NonPrimitives.prototype.nonNull;
+    /** @type {Array<NonPrimitive>} */
+    NonPrimitives.prototype.list;
+    /** @type {Object<string,number>} */
+    NonPrimitives.prototype.map;
+    /** @type {NonPrimitive} */
+    NonPrimitives.prototype.optional;
+}
+/**
+ * @param {string} a
+ * @param {NonPrimitive=} b
+ * @return {void}
+ */
+function takesOptional(a, b) { }
+// Record and function types are nullable, too.
+let /** @type {?{a: number, b: string}} */ record;
+let /** @type {?function(number): string} */ callback;
+/**
+ * @param {?function(number): void} cb
+ * @param {?{verbose: boolean}} options
+ * @return {void}
+ */
+function takesCallback(cb, options) { }
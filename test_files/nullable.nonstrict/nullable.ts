@@ -0,0 +1,16 @@
+// Without strictNullChecks, all object types are nullable.
+class NonPrimitive {}
+
+class NonPrimitives {
+  nonNull: NonPrimitive;
+  list: NonPrimitive[];
+  map: {[key: string]: number};
+  optional?: NonPrimitive;
+}
+
+function takesOptional(a: string, b?: NonPrimitive) {}
+
+// Record and function types are nullable, too.
+let record: {a: number, b: string};
+let callback: (x: number) => string;
+function takesCallback(cb: (x: number) => void, options: {verbose: boolean}) {}
@@ -0,0 +1,36 @@
+
+class NonPrimitive {}
+class NonPrimitives {
+  nonNull: NonPrimitive;
+  list: NonPrimitive[];
+  map: {[key: string]: number};
+  optional?: NonPrimitive;
+}
+
+function NonPrimitives_tsickle_Closure_declarations() {
+/** @type {NonPrimitive} */
+NonPrimitives.prototype.nonNull;
+/** @type {Array<NonPrimitive>} */
+NonPrimitives.prototype.list;
+/** @type {Object<string,number>} */
+NonPrimitives.prototype.map;
+/** @type {NonPrimitive} */
+NonPrimitives.prototype.optional;
+}
+
+/**
+ * @param {string} a
+ * @param {NonPrimitive=} b
+ * @return {void}
+ */
+function takesOptional(a: string, b?: NonPrimitive) {}
+
+// Record and function types are nullable, too.
+let /** @type {?{a: number, b: string}} */ record: {a: number, b: string};
+let /** @type {?function(number): string} */ callback: (x: number) => string;
+/**
+ * @param {?function(number): void} cb
+ * @param {?{verbose: boolean}} options
+ * @return {void}
+ */
+function takesCallback(cb: (x: number) => void, options: {verbose: boolean}) {}
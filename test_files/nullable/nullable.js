@@ -1,7 +1,7 @@
 goog.module('test_files.nullable.nullable');var module = module || {id: 'test_files/nullable/nullable.js'};class Primitives {
 }
 function Primitives_tsickle_Closure_declarations() {
-    /** @type {(null|string)} */
+    /** @type {?string} */
     Primitives.prototype.nullable;
     /** @type {(undefined|number)} */
     Primitives.prototype.undefinable;
@@ -17,7 +17,7 @@ class NonPrimitives {
 function NonPrimitives_tsickle_Closure_declarations() {
     /** @type {!NonPrimitive} */
     NonPrimitives.prototype.nonNull;
-    /** @type {(null|!NonPrimitive)} */
+    /** @type {?NonPrimitive} */
     NonPrimitives.prototype.nullable;
     /** @type {(undefined|!NonPrimitive)} */
     NonPrimitives.prototype.undefinable;
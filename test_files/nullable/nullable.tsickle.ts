@@ -7,7 +7,7 @@ class Primitives {
 }
 
 function Primitives_tsickle_Closure_declarations() {
-/** @type {(null|string)} */
+/** @type {?string} */
 Primitives.prototype.nullable;
 /** @type {(undefined|number)} */
 Primitives.prototype.undefinable;
@@ -29,7 +29,7 @@ class NonPrimitives {
 function NonPrimitives_tsickle_Closure_declarations() {
 /** @type {!NonPrimitive} */
 NonPrimitives.prototype.nonNull;
-/** @type {(null|!NonPrimitive)} */
+/** @type {?NonPrimitive} */
 NonPrimitives.prototype.nullable;
 /** @type {(undefined|!NonPrimitive)} */
 NonPrimitives.prototype.undefinable;
@@ -1,6 +1,6 @@
 goog.module('test_files.optional.optional');var module = module || {id: 'test_files/optional/optional.js'};/**
  * @param {number} x
- * @param {(undefined|string)=} y
+ * @param {string=} y
  * @return {void}
  */
 function optionalArgument(x, y) {
@@ -9,7 +9,7 @@ optionalArgument(1);
 class OptionalTest {
     /**
      * @param {string} a
-     * @param {(undefined|string)=} b
+     * @param {string=} b
      */
     constructor(a, b) { }
     /**
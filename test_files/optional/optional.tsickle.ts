@@ -1,7 +1,7 @@
 
 /**
  * @param {number} x
- * @param {(undefined|string)=} y
+ * @param {string=} y
  * @return {void}
  */
 function optionalArgument(x: number, y?: string) {
@@ -10,7 +10,7 @@ optionalArgument(1);
 class OptionalTest {
 /**
  * @param {string} a
- * @param {(undefined|string)=} b
+ * @param {string=} b
  */
 constructor(a: string, b?: string) {}
 /**
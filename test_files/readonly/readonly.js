@@ -0,0 +1,56 @@
+goog.module('test_files.readonly.readonly');var module = module || {id: 'test_files/readonly/readonly.js'};
+exports.LOOKUP_TABLE = [1, 2, 3];
+class Settings {
+    /**
+     * @param {string} name
+     * @param {number} size
+     */
+    constructor(name, size) {
+        this.name = name;
+        this.size = size;
+        this.created = Date.now();
+    }
+}
+Settings.DEFAULT_NAME = 'settings';
+function Settings_tsickle_Closure_declarations() {
+    /**
+     * @const
+     * @type {string}
+     */
+    Settings.DEFAULT_NAME;
+    /**
+     * @const
+     * @type {number}
+     */
+    Settings.prototype.created;
+    /** @type {string} */
+    Settings.prototype.mutable;
+    /**
+     * @const
+     * @type {string}
+     */
+    Settings.prototype.name;
+    /** @type {number} */
+    Settings.prototype.size;
+}
+/**
+ * @final
+ */
+class Singleton {
+    constructor() { }
+}
+Singleton.INSTANCE = new Singleton();
+function Singleton_tsickle_Closure_declarations() {
+    /**
+     * @const
+     * @type {!Singleton}
+     */
+    Singleton.INSTANCE;
+}
+/**
+ * @return {number}
+ */
+function scoped() {
+    const /** @type {number} */ local = 1;
+    return local;
+}
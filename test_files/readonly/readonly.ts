@@ -0,0 +1,21 @@
+export const LOOKUP_TABLE: number[] = [1, 2, 3];
+
+class Settings {
+  static readonly DEFAULT_NAME = 'settings';
+  readonly created: number;
+  mutable: string;
+
+  constructor(readonly name: string, public size: number) {
+    this.created = Date.now();
+  }
+}
+
+class Singleton {
+  static readonly INSTANCE = new Singleton();
+  private constructor() {}
+}
+
+function scoped() {
+  const local = 1;
+  return local;
+}
@@ -0,0 +1,60 @@
+export const /** @const @type {!Array<number>} */ LOOKUP_TABLE: number[] = [1, 2, 3];
+class Settings {
+  static readonly DEFAULT_NAME = 'settings';
+  readonly created: number;
+  mutable: string;
+/**
+ * @param {string} name
+ * @param {number} size
+ */
+constructor(readonly name: string,
+public size: number) {
+    this.created = Date.now();
+  }
+}
+
+function Settings_tsickle_Closure_declarations() {
+/**
+ * @const
+ * @type {string}
+ */
+Settings.DEFAULT_NAME;
+/**
+ * @const
+ * @type {number}
+ */
+Settings.prototype.created;
+/** @type {string} */
+Settings.prototype.mutable;
+/**
+ * @const
+ * @type {string}
+ */
+Settings.prototype.name;
+/** @type {number} */
+Settings.prototype.size;
+}
+
+/**
+ * @final
+ */
+class Singleton {
+  static readonly INSTANCE = new Singleton();
+private constructor() {}
+}
+
+function Singleton_tsickle_Closure_declarations() {
+/**
+ * @const
+ * @type {!Singleton}
+ */
+Singleton.INSTANCE;
+}
+
+/**
+ * @return {number}
+ */
+function scoped() {
+  const /** @type {number} */ local = 1;
+  return local;
+}
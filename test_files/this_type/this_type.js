@@ -0,0 +1,63 @@
+goog.module('test_files.this_type.this_type');var module = module || {id: 'test_files/this_type/this_type.js'};class Builder {
+    constructor() {
+        this.parts = [];
+    }
+    /**
+     * @this {!Builder}
+     * @param {string} part
+     * @return {!Builder}
+     */
+    add(part) {
+        this.parts.push(part);
+        return this;
+    }
+    /**
+     * @this {!Builder}
+     * @param {...string} parts
+     * @return {!Builder}
+     */
+    addAll(...parts) {
+        parts.forEach(/** @type {function(string): !Builder} */ (p => this.add(p)));
+        return this;
+    }
+}
+function Builder_tsickle_Closure_declarations() {
+    /** @type {!Array<string>} */
+    Builder.prototype.parts;
+}
+class SubBuilder extends Builder {
+    /**
+     * @return {string}
+     */
+    done() { return this.parts.join(''); }
+}
+// Closure types the result of chained calls as the class declaring the method.
+let /** @type {!Builder} */ chained = new SubBuilder().add('a').addAll('b', 'c');
+let /** @type {string} */ built = new SubBuilder().done();
+/**
+ * @record
+ * @template T
+ */
+function Chainable() { }
+/** @type {function(T): !Chainable} */
+Chainable.prototype.with;
+/**
+ * @template T
+ * @implements {Chainable<T>}
+ */
+class Chain {
+    /**
+     * @this {!Chain}
+     * @param {T} value
+     * @return {!Chain}
+     */
+    with(value) { return this; }
+}
+/**
+ * @this {!Builder}
+ * @param {string} part
+ * @return {!Builder}
+ */
+function withThis(part) {
+    return this.add(part);
+}
@@ -0,0 +1,33 @@
+class Builder {
+  parts: string[] = [];
+
+  add(part: string): this {
+    this.parts.push(part);
+    return this;
+  }
+
+  addAll(...parts: string[]) {
+    parts.forEach(p => this.add(p));
+    return this;
+  }
+}
+
+class SubBuilder extends Builder {
+  done(): string { return this.parts.join(''); }
+}
+
+// Closure types the result of chained calls as the class declaring the method.
+let chained: Builder = new SubBuilder().add('a').addAll('b', 'c');
+let built: string = new SubBuilder().done();
+
+interface Chainable<T> {
+  with(value: T): this;
+}
+
+class Chain<T> implements Chainable<T> {
+  with(value: T): this { return this; }
+}
+
+function withThis(this: Builder, part: string) {
+  return this.add(part);
+}
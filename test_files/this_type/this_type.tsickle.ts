@@ -0,0 +1,70 @@
+
+class Builder {
+  parts: string[] = [];
+/**
+ * @this {!Builder}
+ * @param {string} part
+ * @return {!Builder}
+ */
+add(part: string): this {
+    this.parts.push(part);
+    return this;
+  }
+/**
+ * @this {!Builder}
+ * @param {...string} parts
+ * @return {!Builder}
+ */
+addAll(...parts: string[]) {
+    parts.forEach(/** @type {function(string): !Builder} */ (p => this.add(p)));
+    return this;
+  }
+}
+
+function Builder_tsickle_Closure_declarations() {
+/** @type {!Array<string>} */
+Builder.prototype.parts;
+}
+
+class SubBuilder extends Builder {
+/**
+ * @return {string}
+ */
+done(): string { return this.parts.join(''); }
+}
+
+// Closure types the result of chained calls as the class declaring the method.
+let /** @type {!Builder} */ chained: Builder = new SubBuilder().add('a').addAll('b', 'c');
+let /** @type {string} */ built: string = new SubBuilder().done();
+/**
+ * @record
+ * @template T
+ */
+function Chainable() {}
+/** @type {function(T): !Chainable} */
+Chainable.prototype.with;
+
+
+interface Chainable<T> {
+  with(value: T): this;
+}
+/**
+ * @template T
+ * @implements {Chainable<T>}
+ */
+class Chain<T> implements Chainable<T> {
+/**
+ * @this {!Chain}
+ * @param {T} value
+ * @return {!Chain}
+ */
+with(value: T): this { return this; }
+}
+/**
+ * @this {!Builder}
+ * @param {string} part
+ * @return {!Builder}
+ */
+function withThis(this: Builder, part: string) {
+  return this.add(part);
+}
@@ -0,0 +1,10 @@
+goog.module('test_files.tuple.arraylike.tuple');var module = module || {id: 'test_files/tuple.arraylike/tuple.js'};let /** @type {!IArrayLike<number>} */ pair = [1, 2];
+let /** @type {!IArrayLike<(string|number)>} */ entry = ['a', 1];
+let /** @type {!Array<!IArrayLike<(string|number)>>} */ entries = [entry];
+/**
+ * @param {!IArrayLike<(string|number)>} t
+ * @return {!IArrayLike<(number|string)>}
+ */
+function swap(t) {
+    return [t[1], t[0]];
+}
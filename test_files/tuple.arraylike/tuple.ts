@@ -0,0 +1,7 @@
+let pair: [number, number] = [1, 2];
+let entry: [string, number] = ['a', 1];
+let entries: Array<[string, number]> = [entry];
+
+function swap(t: [string, number]): [number, string] {
+  return [t[1], t[0]];
+}
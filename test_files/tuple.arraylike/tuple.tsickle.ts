@@ -0,0 +1,10 @@
+let /** @type {!IArrayLike<number>} */ pair: [number, number] = [1, 2];
+let /** @type {!IArrayLike<(string|number)>} */ entry: [string, number] = ['a', 1];
+let /** @type {!Array<!IArrayLike<(string|number)>>} */ entries: Array<[string, number]> = [entry];
+/**
+ * @param {!IArrayLike<(string|number)>} t
+ * @return {!IArrayLike<(number|string)>}
+ */
+function swap(t: [string, number]): [number, string] {
+  return [t[1], t[0]];
+}
@@ -0,0 +1,13 @@
+goog.module('test_files.tuple.tuple');var module = module || {id: 'test_files/tuple/tuple.js'};let /** @type {!Array<number>} */ pair = [1, 2];
+let /** @type {!Array<(string|number)>} */ entry = ['a', 1];
+let /** @type {!Array<(!Array<(string|number)>|boolean)>} */ nested = [['a', 1], true];
+let /** @type {!Array<!Array<(string|number)>>} */ entries = [entry];
+/**
+ * @param {!Array<(string|number)>} t
+ * @return {!Array<(number|string)>}
+ */
+function swap(t) {
+    return [t[1], t[0]];
+}
+let /** @type {function(...!Array<(string|number)>): void} */ callback = (
+/** @type {function(...!Array<(string|number)>): void} */ (function (...entries) { }));
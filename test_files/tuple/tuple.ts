@@ -0,0 +1,10 @@
+let pair: [number, number] = [1, 2];
+let entry: [string, number] = ['a', 1];
+let nested: [[string, number], boolean] = [['a', 1], true];
+let entries: Array<[string, number]> = [entry];
+
+function swap(t: [string, number]): [number, string] {
+  return [t[1], t[0]];
+}
+
+let callback: (...entries: [string, number][]) => void = function(...entries) {};
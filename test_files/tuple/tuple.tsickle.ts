@@ -0,0 +1,14 @@
+let /** @type {!Array<number>} */ pair: [number, number] = [1, 2];
+let /** @type {!Array<(string|number)>} */ entry: [string, number] = ['a', 1];
+let /** @type {!Array<(!Array<(string|number)>|boolean)>} */ nested: [[string, number], boolean] = [['a', 1], true];
+let /** @type {!Array<!Array<(string|number)>>} */ entries: Array<[string, number]> = [entry];
+/**
+ * @param {!Array<(string|number)>} t
+ * @return {!Array<(number|string)>}
+ */
+function swap(t: [string, number]): [number, string] {
+  return [t[1], t[0]];
+}
+
+let /** @type {function(...!Array<(string|number)>): void} */ callback: (...entries: [string, number][]) => void = (
+/** @type {function(...!Array<(string|number)>): void} */ (function(...entries) {}));
@@ -6,6 +6,7 @@ let /** @type {{a: number, b: string}} */ typeObject = { a: 3, b: 'b' };
 let /** @type {!Object<string,number>} */ typeObject2;
 let /** @type {?} */ typeObject3;
 let /** @type {?} */ typeObjectEmpty;
+let /** @type {{a: number}} */ typeObjectQuoted;
 let /** @type {!Array<?>} */ typeTuple = [1, 2];
 let /** @type {!Array<?>} */ typeComplexTuple = ['', true];
 let /** @type {!Array<?>} */ typeTupleTuple = [[1, 2]];
@@ -14,18 +15,24 @@ let /** @type {(string|boolean)} */ typeUnion = Math.random() > 0.5 ? false : ''
 let /** @type {(string|boolean)} */ typeUnion2 = Math.random() > 0.5 ? false : '';
 let /** @type {{optional: (undefined|boolean)}} */ typeOptionalField = {};
 let /** @type {{optional: (undefined|string|boolean)}} */ typeOptionalUnion = {};
-let /** @type {function(): void} */ typeFunc = function () { };
-let /** @type {function(number, ?): string} */ typeFunc2 = function (a, b) { return ''; };
-let /** @type {function(number, function(number): string): string} */ typeFunc3 = function (x, cb) { return ''; };
+let /** @type {function(): void} */ typeFunc = (
+/** @type {function(): void} */ (function () { }));
+let /** @type {function(number, ?): string} */ typeFunc2 = (
+/** @type {function(number, ?): string} */ (function (a, b) { return ''; }));
+let /** @type {function(number, function(number): string): string} */ typeFunc3 = (
+/** @type {function(number, function(number): string): string} */ (function (x, cb) { return ''; }));
+let /** @type {function(number, ...number): void} */ typeFunc4 = (
+/** @type {function(number, ...number): void} */ (function (a, ...args) { }));
 /**
  * @param {function(number): number} callback
  * @return {void}
  */
 function typeCallback(callback) { }
-typeCallback(val => val + 1);
+typeCallback(/** @type {function(number): number} */ (val => val + 1));
 /**
- * @param {function(?): ?} callback
+ * @template T
+ * @param {function(T): T} callback
  * @return {void}
  */
 function typeGenericCallback(callback) { }
-typeGenericCallback(val => val);
+typeGenericCallback(/** @type {function(?): ?} */ (val => val));
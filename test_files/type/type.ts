@@ -13,6 +13,7 @@ let typeObject: {a:number, b:string} = {a:3, b:'b'};
 let typeObject2: {[key:string]: number};
 let typeObject3: {a:number, [key:string]: number};
 let typeObjectEmpty: {};
+let typeObjectQuoted: {a: number, 'b-c': string};
 
 let typeTuple: [number, number] = [1, 2];
 let typeComplexTuple: [string, true|{a:string}] = ['', true];
@@ -27,7 +28,7 @@ let typeOptionalUnion: {optional?: string|boolean} = {};
 let typeFunc: () => void = function() {};
 let typeFunc2: (a: number, b: any) => string = function(a, b) { return ''; };
 let typeFunc3: (x: number, callback: (x: number) => string) => string = function(x, cb) { return ''; }
-// TODO: let typeFunc4: (a: number, ...args: number[]) => void;
+let typeFunc4: (a: number, ...args: number[]) => void = function(a, ...args) {};
 
 function typeCallback(callback: (val: number) => number) { }
 typeCallback(val => val + 1);
@@ -1,7 +1,8 @@
 Warning at test_files/type/type.ts:14:5: unhandled type literal
 Warning at test_files/type/type.ts:15:5: symbol has no declarations
-Warning at test_files/type/type.ts:34:1: unhandled type flags: TypeParameter
-Warning at test_files/type/type.ts:34:1: unhandled type flags: TypeParameter
+Warning at test_files/type/type.ts:16:5: omitting inexpressible property name: b-c
+Warning at test_files/type/type.ts:36:21: anonymous type has no symbol
+Warning at test_files/type/type.ts:36:21: anonymous type has no symbol
 ====
 // Ensure we still understand what Array is, even when it has been
 // monkeypatched -- issue #170.
@@ -18,6 +19,7 @@ let /** @type {{a: number, b: string}} */ typeObject: {a:number, b:string} = {a:
 let /** @type {!Object<string,number>} */ typeObject2: {[key:string]: number};
 let /** @type {?} */ typeObject3: {a:number, [key:string]: number};
 let /** @type {?} */ typeObjectEmpty: {};
+let /** @type {{a: number}} */ typeObjectQuoted: {a: number, 'b-c': string};
 
 let /** @type {!Array<?>} */ typeTuple: [number, number] = [1, 2];
 let /** @type {!Array<?>} */ typeComplexTuple: [string, true|{a:string}] = ['', true];
@@ -29,18 +31,24 @@ let /** @type {(string|boolean)} */ typeUnion2: (string|boolean) = Math.random()
 let /** @type {{optional: (undefined|boolean)}} */ typeOptionalField: {optional?: boolean} = {};
 let /** @type {{optional: (undefined|string|boolean)}} */ typeOptionalUnion: {optional?: string|boolean} = {};
 
-let /** @type {function(): void} */ typeFunc: () => void = function() {};
-let /** @type {function(number, ?): string} */ typeFunc2: (a: number, b: any) => string = function(a, b) { return ''; };
-let /** @type {function(number, function(number): string): string} */ typeFunc3: (x: number, callback: (x: number) => string) => string = function(x, cb) { return ''; }
+let /** @type {function(): void} */ typeFunc: () => void = (
+/** @type {function(): void} */ (function() {}));
+let /** @type {function(number, ?): string} */ typeFunc2: (a: number, b: any) => string = (
+/** @type {function(number, ?): string} */ (function(a, b) { return ''; }));
+let /** @type {function(number, function(number): string): string} */ typeFunc3: (x: number, callback: (x: number) => string) => string = (
+/** @type {function(number, function(number): string): string} */ (function(x, cb) { return ''; }))
+let /** @type {function(number, ...number): void} */ typeFunc4: (a: number, ...args: number[]) => void = (
+/** @type {function(number, ...number): void} */ (function(a, ...args) {}));
 /**
  * @param {function(number): number} callback
  * @return {void}
  */
 function typeCallback(callback: (val: number) => number) { }
-typeCallback(val => val + 1);
+typeCallback(/** @type {function(number): number} */ (val => val + 1));
 /**
- * @param {function(?): ?} callback
+ * @template T
+ * @param {function(T): T} callback
  * @return {void}
  */
 function typeGenericCallback<T>(callback: (val: T) => T) { }
-typeGenericCallback(val => val);
+typeGenericCallback(/** @type {function(?): ?} */ (val => val));
@@ -1,5 +1,18 @@
 goog.module('test_files.type_and_value.module');var module = module || {id: 'test_files/type_and_value/module.js'};
+/** @record */
+function TypeAndValue$Type() { }
+exports.TypeAndValue$Type = TypeAndValue$Type;
+/** @type {number} */
+TypeAndValue$Type.prototype.z;
 exports.TypeAndValue = 3;
+/** @record */
+function Point$Type() { }
+exports.Point$Type = Point$Type;
+/** @type {number} */
+Point$Type.prototype.x;
+exports.Point = {
+    origin: /** @type {!Point$Type} */ ({ x: 0 }),
+};
 class Class {
 }
 exports.Class = Class;
@@ -3,4 +3,10 @@
 export interface TypeAndValue { z: number }
 export var TypeAndValue = 3;
 
+// A companion object for an interface.
+export interface Point { x: number }
+export const Point = {
+  origin: {x: 0} as Point,
+};
+
 export class Class { z: number }
\ No newline at end of file
@@ -1,7 +1,23 @@
+
+/** @record */
+export function TypeAndValue$Type() {}
+/** @type {number} */
+TypeAndValue$Type.prototype.z;
 // TypeAndValue is both a type and a value, which is allowed in TypeScript
 // but disallowed in Closure.
 export interface TypeAndValue { z: number }
 export var /** @type {number} */ TypeAndValue = 3;
+/** @record */
+export function Point$Type() {}
+/** @type {number} */
+Point$Type.prototype.x;
+
+
+// A companion object for an interface.
+export interface Point { x: number }
+export const /** @const @type {{origin: !Point$Type}} */ Point = {
+  origin: /** @type {!Point$Type} */(( {x: 0} as Point)),
+};
 export class Class { z: number }
 
 function Class_tsickle_Closure_declarations() {
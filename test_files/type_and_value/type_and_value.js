@@ -1,5 +1,7 @@
 goog.module('test_files.type_and_value.type_and_value');var module = module || {id: 'test_files/type_and_value/type_and_value.js'};
 var conflict = goog.require('test_files.type_and_value.module');
+var module_1 = conflict;
+const tsickle_forward_declare_1 = goog.forwardDeclare('test_files.type_and_value.module');
 // This test deals with symbols that are simultaneously types and values.
 // Use a browser built-in as both a type and a value.
 let /** @type {function(new: (!Document)): ?} */ useBuiltInAsValue = Document;
@@ -9,5 +11,19 @@ let /** @type {?} */ useUserClassAsValue = conflict.Class;
 let /** @type {!conflict.Class} */ useUserClassAsType;
 // Use a user-defined interface/value pair as both a type and a value.
 let /** @type {number} */ useAsValue = conflict.TypeAndValue;
-// Note: because of the conflict, we currently just use the type {?} here.
-let /** @type {?} */ useAsType;
+// Note: because of the conflict, the type is emitted as TypeAndValue$Type.
+let /** @type {!conflict.TypeAndValue$Type} */ useAsType;
+// The same for a named import of a companion object, and an implementation of it.
+let /** @type {!tsickle_forward_declare_1.Point$Type} */ point = module_1.Point.origin;
+/**
+ * @implements {tsickle_forward_declare_1.Point$Type}
+ */
+class PointImpl {
+    constructor() {
+        this.x = 0;
+    }
+}
+function PointImpl_tsickle_Closure_declarations() {
+    /** @type {number} */
+    PointImpl.prototype.x;
+}
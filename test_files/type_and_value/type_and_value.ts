@@ -1,4 +1,5 @@
 import * as conflict from './module';
+import {Point} from './module';
 
 // This test deals with symbols that are simultaneously types and values.
 
@@ -12,5 +13,11 @@ let useUserClassAsType: conflict.Class;
 
 // Use a user-defined interface/value pair as both a type and a value.
 let useAsValue = conflict.TypeAndValue;
-// Note: because of the conflict, we currently just use the type {?} here.
+// Note: because of the conflict, the type is emitted as TypeAndValue$Type.
 let useAsType: conflict.TypeAndValue;
+
+// The same for a named import of a companion object, and an implementation of it.
+let point: Point = Point.origin;
+class PointImpl implements Point {
+  x = 0;
+}
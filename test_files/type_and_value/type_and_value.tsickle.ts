@@ -1,7 +1,8 @@
-Warning at test_files/type_and_value/type_and_value.ts:10:5: unhandled anonymous type
-Warning at test_files/type_and_value/type_and_value.ts:16:5: type/symbol conflict for TypeAndValue, using {?} for now
+Warning at test_files/type_and_value/type_and_value.ts:11:5: unhandled anonymous type
 ====
 import * as conflict from './module';
+import {Point} from './module';
+const tsickle_forward_declare_1 = goog.forwardDeclare('test_files.type_and_value.module');
 
 // This test deals with symbols that are simultaneously types and values.
 
@@ -15,5 +16,20 @@ let /** @type {!conflict.Class} */ useUserClassAsType: conflict.Class;
 
 // Use a user-defined interface/value pair as both a type and a value.
 let /** @type {number} */ useAsValue = conflict.TypeAndValue;
-// Note: because of the conflict, we currently just use the type {?} here.
-let /** @type {?} */ useAsType: conflict.TypeAndValue;
+// Note: because of the conflict, the type is emitted as TypeAndValue$Type.
+let /** @type {!conflict.TypeAndValue$Type} */ useAsType: conflict.TypeAndValue;
+
+// The same for a named import of a companion object, and an implementation of it.
+let /** @type {!tsickle_forward_declare_1.Point$Type} */ point: Point = Point.origin;
+/**
+ * @implements {tsickle_forward_declare_1.Point$Type}
+ */
+class PointImpl implements Point {
+  x = 0;
+}
+
+function PointImpl_tsickle_Closure_declarations() {
+/** @type {number} */
+PointImpl.prototype.x;
+}
+
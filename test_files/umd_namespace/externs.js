@@ -0,0 +1,18 @@
+/**
+ * @externs
+ * @suppress {duplicate}
+ */
+// NOTE: generated by tsickle, do not edit.
+/** @const */
+var umdLib = {};
+
+/**
+ * @param {string} text
+ * @return {!umdLib.Result}
+ */
+umdLib.parse = function(text) {};
+
+/** @record @struct */
+umdLib.Result = function() {};
+ /** @type {number} */
+umdLib.Result.prototype.value;
@@ -0,0 +1,7 @@
+// A UMD module with ES-style exports, which become members of its global.
+export as namespace umdLib;
+
+export declare function parse(text: string): Result;
+export interface Result {
+  value: number;
+}
@@ -0,0 +1,63 @@
+goog.module('test_files.visibility.visibility');var module = module || {id: 'test_files/visibility/visibility.js'};class Visibility {
+    /**
+     * @param {string} ctorPrivate
+     * @param {number} ctorProtected
+     * @param {string} ctorPublic
+     */
+    constructor(ctorPrivate, ctorProtected, ctorPublic) {
+        this.ctorPrivate = ctorPrivate;
+        this.ctorProtected = ctorProtected;
+        this.ctorPublic = ctorPublic;
+    }
+    /**
+     * @private
+     * @return {void}
+     */
+    privateMethod() { }
+    /**
+     * @protected
+     * @return {void}
+     */
+    protectedMethod() { }
+    /**
+     * @return {void}
+     */
+    publicMethod() { }
+    /**
+     * @protected
+     * @return {number}
+     */
+    get protectedGetter() { return 1; }
+}
+function Visibility_tsickle_Closure_declarations() {
+    /**
+     * @private
+     * @type {string}
+     */
+    Visibility.prototype.secret;
+    /**
+     * @protected
+     * @type {number}
+     */
+    Visibility.prototype.shared;
+    /** @type {boolean} */
+    Visibility.prototype.publicField;
+    /**
+     * @private
+     * @type {string}
+     */
+    Visibility.prototype.ctorPrivate;
+    /**
+     * @protected
+     * @type {number}
+     */
+    Visibility.prototype.ctorProtected;
+    /** @type {string} */
+    Visibility.prototype.ctorPublic;
+    /**
+     * @protected
+     * @const
+     * @type {number}
+     */
+    Visibility.prototype.protectedGetter;
+}
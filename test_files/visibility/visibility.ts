@@ -0,0 +1,13 @@
+class Visibility {
+  private secret: string;
+  protected shared: number;
+  publicField: boolean;
+
+  constructor(private ctorPrivate: string, protected ctorProtected: number, public ctorPublic: string) {}
+
+  private privateMethod(): void {}
+  protected protectedMethod(): void {}
+  publicMethod(): void {}
+
+  protected get protectedGetter(): number { return 1; }
+}
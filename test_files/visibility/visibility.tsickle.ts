@@ -0,0 +1,66 @@
+
+class Visibility {
+private secret: string;
+  protected shared: number;
+  publicField: boolean;
+/**
+ * @param {string} ctorPrivate
+ * @param {number} ctorProtected
+ * @param {string} ctorPublic
+ */
+constructor(private ctorPrivate: string, protected ctorProtected: number,
+public ctorPublic: string) {}
+/**
+ * @private
+ * @return {void}
+ */
+private privateMethod(): void {}
+/**
+ * @protected
+ * @return {void}
+ */
+protected protectedMethod(): void {}
+/**
+ * @return {void}
+ */
+publicMethod(): void {}
+/**
+ * @protected
+ * @return {number}
+ */
+protected get protectedGetter(): number { return 1; }
+}
+
+function Visibility_tsickle_Closure_declarations() {
+/**
+ * @private
+ * @type {string}
+ */
+Visibility.prototype.secret;
+/**
+ * @protected
+ * @type {number}
+ */
+Visibility.prototype.shared;
+/** @type {boolean} */
+Visibility.prototype.publicField;
+/**
+ * @private
+ * @type {string}
+ */
+Visibility.prototype.ctorPrivate;
+/**
+ * @protected
+ * @type {number}
+ */
+Visibility.prototype.ctorProtected;
+/** @type {string} */
+Visibility.prototype.ctorPublic;
+/**
+ * @protected
+ * @const
+ * @type {number}
+ */
+Visibility.prototype.protectedGetter;
+}
+